@@ -0,0 +1,186 @@
+import { Condition } from "./condition";
+import { Diagnosable, NamedOptions } from "./diagnostics";
+import { WaitOptions, WaitScope, waitOptionsOf } from "./timeout";
+
+/**
+ * Thrown by {@link CyclicBarrier#wait} when the barrier is broken
+ */
+export class BrokenBarrierException extends Error {}
+
+export interface CyclicBarrierOptions extends NamedOptions {
+  /**
+   * Run by the last party to arrive, before any party is released
+   *
+   * If the action throws, the barrier is broken, the last party's call to
+   * {@link CyclicBarrier#wait} rethrows the error, and the other parties
+   * receive a {@link BrokenBarrierException}.
+   */
+  action?: () => void | Promise<void>;
+}
+
+interface Generation {
+  arrived: number;
+  broken: boolean;
+  // Whether the last party has arrived and is running the barrier action.
+  tripping: boolean;
+  readonly cv: Condition;
+}
+
+/**
+ * Makes a fixed number of parties wait for each other, like Java's `CyclicBarrier`
+ *
+ * Each party calls {@link CyclicBarrier#wait}, which blocks until every
+ * party has arrived. The barrier then resets itself for the next phase.
+ *
+ * Parties that arrive while the barrier action is running wait for it to
+ * finish, and then arrive at the next phase.
+ *
+ * If any waiting party is aborted or times out, the barrier is broken:
+ * every other party waiting on it receives a {@link BrokenBarrierException},
+ * as do future calls to `wait` until {@link CyclicBarrier#reset} is called.
+ */
+export class CyclicBarrier implements Diagnosable {
+  private generation: Generation;
+  // Notified once the barrier action has finished.
+  private readonly tripCV: Condition;
+  private readonly action: (() => void | Promise<void>) | undefined;
+  public readonly name: string | undefined;
+
+  /**
+   * @param parties - The number of parties that must arrive to trip the barrier
+   * @throws RangeError if `parties` is not a positive integer
+   */
+  public constructor(
+    public readonly parties: number,
+    options: CyclicBarrierOptions = {}
+  ) {
+    if (!Number.isInteger(parties) || parties < 1) {
+      throw new RangeError("CyclicBarrier parties must be a positive integer");
+    }
+    this.action = options.action;
+    this.name = options.name;
+    this.tripCV = new Condition({}, this);
+    this.generation = this.newGeneration();
+  }
+
+  private newGeneration(): Generation {
+    return {
+      arrived: 0,
+      broken: false,
+      tripping: false,
+      cv: new Condition({}, this),
+    };
+  }
+
+  /**
+   * Whether the current phase has been broken
+   */
+  public get isBroken(): boolean {
+    return this.generation.broken;
+  }
+
+  /**
+   * The number of parties waiting for the current phase to complete
+   */
+  public get waiting(): number {
+    return this.generation.arrived;
+  }
+
+  private breakGeneration(generation: Generation): void {
+    if (generation.broken) return;
+    generation.broken = true;
+    generation.cv.notifyAll();
+  }
+
+  /**
+   * Breaks the current phase, if any parties are waiting, and starts a new one
+   *
+   * Parties waiting on the current phase receive a {@link BrokenBarrierException}.
+   */
+  public reset(): void {
+    this.breakGeneration(this.generation);
+    this.generation = this.newGeneration();
+    this.tripCV.notifyAll();
+  }
+
+  /**
+   * Arrives at the barrier and waits for the other parties
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline. Aborting a waiting party breaks the barrier.
+   * @returns The arrival index, counting down from `parties - 1` for the
+   * first party to arrive to 0 for the last, or undefined if aborted
+   * @throws BrokenBarrierException if the barrier is or becomes broken
+   * @throws TimeoutException if the timeout or deadline passed first, which
+   * also breaks the barrier
+   */
+  public async wait(
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<number | undefined> {
+    if (this.generation.tripping) {
+      const scope = new WaitScope(signalOrOptions);
+      try {
+        while (this.generation.tripping) {
+          if (!(await this.tripCV.wait(scope.signal))) {
+            // Nobody has arrived at the next phase yet, so it isn't broken.
+            scope.throwIfTimedOut();
+            return undefined;
+          }
+        }
+      } finally {
+        scope.dispose();
+      }
+    }
+
+    const generation = this.generation;
+    if (generation.broken) {
+      throw new BrokenBarrierException("The barrier is broken");
+    }
+    if (waitOptionsOf(signalOrOptions).signal?.aborted === true) {
+      this.breakGeneration(generation);
+      return undefined;
+    }
+
+    const index = this.parties - 1 - generation.arrived++;
+    if (index === 0) {
+      await this.trip(generation);
+      return index;
+    }
+
+    const scope = new WaitScope(signalOrOptions);
+    try {
+      const tripped = await generation.cv.wait(scope.signal);
+      if (generation.broken) {
+        if (!tripped) scope.throwIfTimedOut();
+        throw new BrokenBarrierException("The barrier was broken");
+      }
+      if (tripped) return index;
+      this.breakGeneration(generation);
+      scope.throwIfTimedOut();
+      return undefined;
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  // Runs the barrier action as the last party, then releases the others.
+  private async trip(generation: Generation): Promise<void> {
+    generation.tripping = true;
+    try {
+      try {
+        await this.action?.();
+      } catch (e: unknown) {
+        this.breakGeneration(generation);
+        throw e;
+      }
+      if (generation.broken) {
+        throw new BrokenBarrierException("The barrier was broken");
+      }
+      this.generation = this.newGeneration();
+      generation.cv.notifyAll();
+    } finally {
+      generation.tripping = false;
+      this.tripCV.notifyAll();
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import { Clock, ClockOptions, systemClock } from "./clock";
+import { Diagnosable, NamedOptions } from "./diagnostics";
+import { Semaphore } from "./semaphore";
+
+/**
+ * Thrown instead of calling the function while a {@link CircuitBreaker}
+ * is open, or while its half-open probes are all in flight
+ */
+export class CircuitOpenException extends Error {}
+
+/**
+ * The state of a {@link CircuitBreaker}
+ *
+ * - `"closed"` lets every call through, while measuring the failure rate
+ * - `"open"` rejects every call until `openMs` has passed
+ * - `"halfOpen"` lets a limited number of probe calls through, closing
+ *   the circuit if they succeed and opening it again if any fails
+ */
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export interface CircuitBreakerOptions extends ClockOptions, NamedOptions {
+  /**
+   * The fraction of failed calls within the window that opens the circuit,
+   * defaulting to 0.5
+   */
+  failureRateThreshold?: number;
+  /**
+   * The number of calls the window must hold before the failure rate is
+   * acted on, defaulting to 10
+   */
+  minimumCalls?: number;
+  /**
+   * The length of the window over which the failure rate is measured, in
+   * milliseconds, defaulting to 60000
+   */
+  windowMs?: number;
+  /**
+   * How long the circuit stays open before letting probes through, in
+   * milliseconds, defaulting to 30000
+   */
+  openMs?: number;
+  /**
+   * The number of probe calls let through at once while half-open, which
+   * must all succeed to close the circuit, defaulting to 1
+   */
+  halfOpenProbes?: number;
+  /**
+   * Decides whether an error counts as a failure, defaulting to counting
+   * every error. Errors that don't count are rethrown without being
+   * recorded.
+   */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Stops calling a failing dependency until it has had time to recover
+ *
+ * ```ts
+ * const breaker = new CircuitBreaker({ failureRateThreshold: 0.5 });
+ * const user = await breaker.execute(() => fetchUser(id));
+ * ```
+ *
+ * While closed, the breaker records the outcome of every call within a
+ * rolling window of `windowMs`. Once the window holds at least
+ * `minimumCalls` outcomes, and the fraction of failures reaches the
+ * threshold, the circuit opens and calls fail fast with a
+ * {@link CircuitOpenException}. After `openMs`, the circuit is half-open,
+ * and a {@link Semaphore} limits how many probe calls are let through.
+ *
+ * Outcomes of calls that started before the last change of state are
+ * ignored, since they describe the dependency as it was.
+ */
+export class CircuitBreaker implements Diagnosable {
+  private readonly clock: Clock;
+  private readonly failureRateThreshold: number;
+  private readonly minimumCalls: number;
+  private readonly windowMs: number;
+  private readonly openMs: number;
+  private readonly probeCount: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly probes: Semaphore;
+
+  private currentState: CircuitState = "closed";
+  // Incremented on every change of state.
+  private generation = 0;
+  private openedAt = 0;
+  private probeSuccesses = 0;
+  // The time and outcome of each call still inside the window, oldest first.
+  private readonly outcomes: { at: number; failed: boolean }[] = [];
+  private failures = 0;
+  public readonly name: string | undefined;
+
+  /**
+   * @throws RangeError if `failureRateThreshold` is not within (0, 1], or
+   * `minimumCalls`, `windowMs`, `openMs` or `halfOpenProbes` is not positive
+   */
+  public constructor(options: CircuitBreakerOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.minimumCalls = options.minimumCalls ?? 10;
+    this.windowMs = options.windowMs ?? 60000;
+    this.openMs = options.openMs ?? 30000;
+    this.probeCount = options.halfOpenProbes ?? 1;
+    this.isFailure = options.isFailure ?? (() => true);
+    this.name = options.name;
+    if (!(this.failureRateThreshold > 0 && this.failureRateThreshold <= 1)) {
+      throw new RangeError(
+        "CircuitBreaker failureRateThreshold must be within (0, 1]"
+      );
+    }
+    if (
+      !Number.isInteger(this.minimumCalls) ||
+      !Number.isInteger(this.probeCount) ||
+      this.minimumCalls < 1 ||
+      this.probeCount < 1 ||
+      !(this.windowMs > 0) ||
+      !(this.openMs > 0)
+    ) {
+      throw new RangeError(
+        "CircuitBreaker minimumCalls, windowMs, openMs and halfOpenProbes " +
+          "must be positive"
+      );
+    }
+    this.probes = new Semaphore(this.probeCount);
+  }
+
+  /**
+   * The current state, which becomes `"halfOpen"` once the circuit has
+   * been open for `openMs`
+   */
+  public get state(): CircuitState {
+    if (
+      this.currentState === "open" &&
+      this.clock.now() - this.openedAt >= this.openMs
+    ) {
+      this.transition("halfOpen");
+    }
+    return this.currentState;
+  }
+
+  /**
+   * The fraction of calls within the window that failed, or 0 if there
+   * were none
+   */
+  public get failureRate(): number {
+    this.expire(this.clock.now());
+    if (this.outcomes.length < 1) return 0;
+    return this.failures / this.outcomes.length;
+  }
+
+  /**
+   * Closes the circuit and forgets every recorded outcome
+   */
+  public reset(): void {
+    this.transition("closed");
+  }
+
+  private transition(state: CircuitState): void {
+    this.currentState = state;
+    this.generation++;
+    this.outcomes.length = 0;
+    this.failures = 0;
+    this.probeSuccesses = 0;
+    if (state === "open") this.openedAt = this.clock.now();
+  }
+
+  private expire(now: number): void {
+    while (
+      this.outcomes.length > 0 &&
+      this.outcomes[0].at + this.windowMs <= now
+    ) {
+      if (this.outcomes.shift()!.failed) this.failures--;
+    }
+  }
+
+  /**
+   * Calls `fn` unless the circuit is open
+   *
+   * @returns The value `fn` returned
+   * @throws CircuitOpenException if the circuit is open, or half-open with
+   * every probe already in flight
+   * @throws The error `fn` threw
+   */
+  public async execute<T>(fn: () => Promise<T>): Promise<T> {
+    switch (this.state) {
+      case "closed":
+        return await this.call(fn, this.generation);
+      case "open":
+        throw new CircuitOpenException("The circuit is open");
+      case "halfOpen":
+        return await this.probe(fn);
+    }
+  }
+
+  private async probe<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.probes.available < 1) {
+      throw new CircuitOpenException("The circuit's probes are in flight");
+    }
+    const generation = this.generation;
+    // With a slot available, this is acquired without waiting.
+    const handle = await this.probes.acquire();
+    try {
+      return await this.call(fn, generation);
+    } finally {
+      this.probes.release(handle);
+    }
+  }
+
+  private async call<T>(
+    fn: () => Promise<T>,
+    generation: number
+  ): Promise<T> {
+    let result: T;
+    try {
+      result = await fn();
+    } catch (e: unknown) {
+      if (this.isFailure(e)) this.record(generation, true);
+      throw e;
+    }
+    this.record(generation, false);
+    return result;
+  }
+
+  private record(generation: number, failed: boolean): void {
+    if (generation !== this.generation) return;
+
+    if (this.currentState === "halfOpen") {
+      if (failed) {
+        this.transition("open");
+      } else if (++this.probeSuccesses >= this.probeCount) {
+        this.transition("closed");
+      }
+      return;
+    }
+
+    const now = this.clock.now();
+    this.expire(now);
+    this.outcomes.push({ at: now, failed });
+    if (failed) this.failures++;
+    if (
+      this.outcomes.length >= this.minimumCalls &&
+      this.failures / this.outcomes.length >= this.failureRateThreshold
+    ) {
+      this.transition("open");
+    }
+  }
+}
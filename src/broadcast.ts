@@ -0,0 +1,267 @@
+import {
+  Channel,
+  ChannelClosedException,
+  WriteCancelledException,
+} from "./channel";
+import { Diagnosable, NamedOptions } from "./diagnostics";
+import { asyncDisposeSymbol, disposeSymbol } from "./disposable";
+import { WaitOptions, WaitScope, waitOptionsOf } from "./timeout";
+
+/**
+ * What a {@link BroadcastChannel} does when a subscriber's buffer is full
+ *
+ * - `"block"` makes {@link BroadcastChannel#publish} wait for room
+ * - `"dropOldest"` discards the oldest buffered value to make room
+ * - `"dropNewest"` discards the value being published
+ * - `"disconnect"` ends the subscription with a {@link SubscriberDisconnectedException}
+ */
+export type SlowSubscriberPolicy =
+  | "block"
+  | "dropOldest"
+  | "dropNewest"
+  | "disconnect";
+
+/**
+ * Thrown to a subscriber that fell too far behind under the `"disconnect"` policy
+ */
+export class SubscriberDisconnectedException extends Error {}
+
+export interface BroadcastChannelOptions extends NamedOptions {
+  /**
+   * The number of values buffered for each subscriber, defaulting to 16
+   */
+  bufferSize?: number;
+  /**
+   * Defaults to `"block"`
+   */
+  slowSubscriber?: SlowSubscriberPolicy;
+}
+
+/**
+ * One subscriber's view of a {@link BroadcastChannel}
+ *
+ * Iterating yields every value published after the subscription was made,
+ * until the broadcast channel is closed and the buffered values have been
+ * drained, or the subscription is ended. Breaking out of the iteration
+ * or disposing the subscription unsubscribes.
+ */
+export class Subscription<T>
+  implements AsyncIterable<T>, Disposable, AsyncDisposable
+{
+  private readonly controller = new AbortController();
+  private readonly abortOnExternalSignal = () => this.unsubscribe();
+  private droppedValues = 0;
+  private disconnected = false;
+
+  public constructor(
+    private readonly queue: Channel<T>,
+    private readonly remove: (subscription: Subscription<T>) => void,
+    private readonly signal: AbortSignal | undefined
+  ) {
+    signal?.addEventListener("abort", this.abortOnExternalSignal, {
+      once: true,
+    });
+    if (signal?.aborted === true) this.unsubscribe();
+  }
+
+  /**
+   * Whether values are still being delivered to this subscription
+   */
+  public get isActive(): boolean {
+    return !this.queue.isClosed;
+  }
+
+  /**
+   * The number of values discarded by the `"dropOldest"` or `"dropNewest"` policies
+   */
+  public get dropped(): number {
+    return this.droppedValues;
+  }
+
+  /**
+   * Stops delivering values, ending any iteration in progress
+   */
+  public unsubscribe(): void {
+    this.signal?.removeEventListener("abort", this.abortOnExternalSignal);
+    this.controller.abort();
+    this.queue.close();
+    this.remove(this);
+  }
+
+  /**
+   * Delivers a published value according to the slow subscriber policy
+   */
+  public async deliver(
+    value: T,
+    policy: SlowSubscriberPolicy,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    if (this.queue.isClosed) return;
+    if (policy !== "block" && this.queue.length >= this.queue.capacity) {
+      switch (policy) {
+        case "dropNewest":
+          this.droppedValues++;
+          return;
+        case "dropOldest":
+          this.droppedValues++;
+          // With a full buffer, the read takes its value synchronously, so
+          // the write below can't block.
+          void this.queue.read();
+          break;
+        case "disconnect":
+          // Unlike unsubscribing, this lets the subscriber drain its buffer
+          // before learning that it was disconnected.
+          this.disconnected = true;
+          this.close();
+          this.remove(this);
+          return;
+      }
+    }
+    try {
+      await this.queue.write(value, signal);
+    } catch (e: unknown) {
+      // The subscriber went away while we were waiting for room.
+      if (!(e instanceof ChannelClosedException)) throw e;
+    }
+  }
+
+  /**
+   * Ends the subscription once its buffered values have been drained
+   */
+  public close(): void {
+    this.queue.close();
+  }
+
+  public async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    try {
+      yield* this.queue.iterate(this.controller.signal);
+      if (this.disconnected) {
+        throw new SubscriberDisconnectedException(
+          "Subscriber fell too far behind and was disconnected"
+        );
+      }
+    } finally {
+      this.unsubscribe();
+    }
+  }
+
+  public [disposeSymbol](): void {
+    this.unsubscribe();
+  }
+
+  public async [asyncDisposeSymbol](): Promise<void> {
+    this.unsubscribe();
+  }
+}
+
+/**
+ * Delivers every published value to every current subscriber
+ *
+ * Unlike a {@link Channel}, where each value reaches exactly one reader,
+ * a BroadcastChannel is for one-to-many events like configuration reloads
+ * or cache invalidations. Each subscriber has its own buffer, and the
+ * `slowSubscriber` policy decides what happens when a buffer fills up.
+ */
+export class BroadcastChannel<T> implements Diagnosable {
+  private readonly subscriptions = new Set<Subscription<T>>();
+  private readonly bufferSize: number;
+  private readonly policy: SlowSubscriberPolicy;
+  private closed = false;
+  public readonly name: string | undefined;
+
+  /**
+   * @throws RangeError if `bufferSize` is negative, or zero with a policy
+   * other than `"block"`
+   */
+  public constructor(options: BroadcastChannelOptions = {}) {
+    this.bufferSize = options.bufferSize ?? 16;
+    this.policy = options.slowSubscriber ?? "block";
+    this.name = options.name;
+    const minimum = this.policy === "block" ? 0 : 1;
+    if (!Number.isInteger(this.bufferSize) || this.bufferSize < minimum) {
+      throw new RangeError(
+        `BroadcastChannel bufferSize must be an integer of at least ${minimum}`
+      );
+    }
+  }
+
+  public get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * The number of active subscriptions
+   */
+  public get subscribers(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Subscribes to values published from now on
+   *
+   * @param signal - An optional `AbortSignal` that ends the subscription
+   * @returns A subscription that has already ended if the channel is closed
+   */
+  public subscribe(signal?: AbortSignal): Subscription<T> {
+    const queue = new Channel<T>({ capacity: this.bufferSize });
+    const subscription = new Subscription(
+      queue,
+      (s) => this.subscriptions.delete(s),
+      signal
+    );
+    if (this.closed) {
+      subscription.close();
+    } else if (subscription.isActive) {
+      this.subscriptions.add(subscription);
+    }
+    return subscription;
+  }
+
+  /**
+   * Delivers a value to every current subscriber
+   *
+   * Under the `"block"` policy, this waits until every subscriber has room
+   * for the value. If the wait is cancelled, subscribers that already had
+   * room keep the value.
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @throws ChannelClosedException if the channel has been closed
+   * @throws WriteCancelledException if the optional `signal` has been aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async publish(
+    value: T,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<void> {
+    if (this.closed) throw new ChannelClosedException();
+    if (waitOptionsOf(signalOrOptions).signal?.aborted === true) {
+      throw new WriteCancelledException();
+    }
+
+    const scope = new WaitScope(signalOrOptions);
+    try {
+      await Promise.all(
+        [...this.subscriptions].map((subscription) =>
+          subscription.deliver(value, this.policy, scope.signal)
+        )
+      );
+    } catch (e: unknown) {
+      if (e instanceof WriteCancelledException) scope.throwIfTimedOut();
+      throw e;
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Stops publishing, and ends every subscription once it has drained
+   * its buffered values
+   */
+  public close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const subscription of this.subscriptions) subscription.close();
+    this.subscriptions.clear();
+  }
+}
@@ -1,11 +1,238 @@
 import { Condition } from "./condition";
+import { Diagnosable, NamedOptions } from "./diagnostics";
+import { asyncDisposeSymbol, disposeSymbol } from "./disposable";
+import { activeInstrumentation } from "./instrumentation";
+import { PolicyOptions, WakePolicy, nextWaiterIndex } from "./policy";
+import { WaitOptions, WaitScope } from "./timeout";
 
 export class ChannelClosedException extends Error {}
 export class ReadCancelledException extends Error {}
 export class WriteCancelledException extends Error {}
 
 /**
- * Go-style, unbuffered, unidirectional data channel
+ * Tracks whether a read or write has taken effect
+ *
+ * Every case of a {@link Channel.select} shares a single claim, which
+ * ensures that at most one of the cases takes effect. Plain reads and
+ * writes each use their own claim.
+ */
+class Claim {
+  private claimed = false;
+
+  public get isAvailable(): boolean {
+    return !this.claimed;
+  }
+
+  /**
+   * @returns Whether the claim was taken by this call
+   */
+  public take(): boolean {
+    if (this.claimed) return false;
+    this.claimed = true;
+    return true;
+  }
+}
+
+/**
+ * A read or write that is blocked waiting for its counterpart
+ *
+ * The counterpart completes the operation by taking both claims,
+ * setting `done`, and notifying `cv`. Operations whose `cv` has no
+ * waiters have already been woken, and are about to stop waiting.
+ */
+interface ParkedOperation<T> {
+  readonly claim: Claim;
+  readonly cv: Condition;
+  readonly priority: number;
+  value: T | undefined;
+  done: boolean;
+}
+
+// Closing a channel completes a select case like any value would, so the
+// claim is taken on the way out. If another case already won, this case
+// is cancelled instead.
+function rejectClosed(
+  claim: Claim,
+  cancellation: Error,
+  closedError: unknown = new ChannelClosedException()
+): never {
+  if (!claim.take()) throw cancellation;
+  throw closedError;
+}
+
+/**
+ * A write to a channel that can be passed as a case to {@link Channel.select}
+ *
+ * Created by {@link Channel#writeCase}.
+ */
+export class WriteCase<T> {
+  public constructor(
+    public readonly channel: Channel<T>,
+    public readonly value: T
+  ) {}
+}
+
+/**
+ * A case for {@link Channel.select}: a channel to read from, or a write to perform
+ */
+export type SelectCase<T> = Channel<T> | WriteCase<T>;
+
+/**
+ * The type of value read or written by a {@link SelectCase}
+ */
+export type SelectCaseValue<C> = C extends Channel<infer T>
+  ? T
+  : C extends WriteCase<infer T>
+  ? T
+  : never;
+
+type TupleIndex<K> = K extends `${infer N extends number}` ? N : number;
+
+/**
+ * The result of {@link Channel.selectFrom} for an array of cases
+ *
+ * This is a union discriminated by `index`, the position of
+ * the case that took effect.
+ */
+export type SelectResult<Cases extends readonly SelectCase<any>[]> = {
+  [K in keyof Cases]: {
+    index: TupleIndex<K>;
+    channel: Channel<SelectCaseValue<Cases[K]>>;
+    value: SelectCaseValue<Cases[K]>;
+  };
+}[number];
+
+/**
+ * The result of {@link Channel.selectFrom} for a record of cases
+ *
+ * This is a union discriminated by `key`, the key of the case
+ * that took effect.
+ */
+export type KeyedSelectResult<Cases extends Record<string, SelectCase<any>>> = {
+  [K in keyof Cases]: {
+    key: K;
+    channel: Channel<SelectCaseValue<Cases[K]>>;
+    value: SelectCaseValue<Cases[K]>;
+  };
+}[keyof Cases];
+
+/**
+ * Options for {@link Channel.select} and {@link Channel.selectFrom}
+ *
+ * The `signal` cancels the select, and `timeoutMs` or `deadline` make it
+ * reject with a {@link TimeoutException} if no case takes effect in time.
+ */
+export interface SelectOptions extends WaitOptions {
+  /**
+   * Runs instead of any case when no case can proceed without blocking
+   */
+  default?: () => Promise<void>;
+}
+
+type SelectOption =
+  | {
+      kind: "read";
+      channel: Channel<unknown>;
+      handler: (value: unknown) => Promise<void>;
+    }
+  | {
+      kind: "write";
+      channel: Channel<unknown>;
+      value: unknown;
+      handler: (value: unknown) => Promise<void>;
+    };
+
+export interface ChannelIterationOptions {
+  /**
+   * An optional `AbortSignal` that can be used to cancel iteration
+   */
+  signal?: AbortSignal;
+  /**
+   * Whether disposing the iteration also closes the channel. Defaults to false.
+   */
+  closeOnDispose?: boolean;
+}
+
+/**
+ * A scoped iteration over a channel, created by {@link Channel#iteration}
+ *
+ * Disposing the iteration cancels any pending read, and ends the iteration.
+ * If `closeOnDispose` was passed, disposing the iteration also closes the
+ * channel, so that writers stop producing values.
+ */
+export class ChannelIteration<T>
+  implements AsyncIterable<T>, Disposable, AsyncDisposable
+{
+  private readonly controller = new AbortController();
+  private readonly abortOnExternalSignal = () => this.controller.abort();
+
+  public constructor(
+    private readonly channel: Channel<T>,
+    private readonly options: ChannelIterationOptions = {}
+  ) {
+    options.signal?.addEventListener("abort", this.abortOnExternalSignal, {
+      once: true,
+    });
+    if (options.signal?.aborted === true) this.controller.abort();
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<T> {
+    return this.channel.iterate(this.controller.signal);
+  }
+
+  /**
+   * Ends the iteration, and closes the channel if `closeOnDispose` was passed
+   */
+  public cancel(): void {
+    this.options.signal?.removeEventListener(
+      "abort",
+      this.abortOnExternalSignal
+    );
+    this.controller.abort();
+    if (this.options.closeOnDispose === true) this.channel.close();
+  }
+
+  public [disposeSymbol](): void {
+    this.cancel();
+  }
+
+  public async [asyncDisposeSymbol](): Promise<void> {
+    this.cancel();
+  }
+}
+
+export interface ChannelOptions extends PolicyOptions, NamedOptions {
+  /**
+   * The number of values that can be written without a matching read.
+   * Defaults to 0, which results in an unbuffered channel.
+   */
+  capacity?: number;
+}
+
+export interface ChannelFromOptions extends ChannelOptions {
+  /**
+   * Stops reading from the source and closes the channel when aborted
+   */
+  signal?: AbortSignal;
+}
+
+export interface PipeOptions {
+  /**
+   * Stops piping when aborted, leaving both channels open
+   */
+  signal?: AbortSignal;
+  /**
+   * Leaves the destination open once the source is closed and drained
+   */
+  preventClose?: boolean;
+  /**
+   * Leaves the source open if the destination is closed first
+   */
+  preventCancel?: boolean;
+}
+
+/**
+ * Go-style, optionally buffered, unidirectional data channel
  *
  * A channel is a concurrency primitive popularized by Go
  * (although existing in preceding programming languages)
@@ -28,9 +255,20 @@ export class WriteCancelledException extends Error {}
  * a read attempt occurs or the write attempt is cancelled with
  * an optional `AbortSignal`.
  *
- * Concurrent reads from multiple channels are provided by
- * {@link Channel#select}, which emulates the semantics of
- * Go's `select` statement with respect to channel read operations.
+ * A channel constructed with a nonzero `capacity` is buffered.
+ * Writes to a buffered channel complete immediately while the
+ * buffer has room, and only block once the buffer is full. Reads
+ * take values from the buffer in the order they were written,
+ * and only block while the buffer is empty.
+ *
+ * Blocked reads and writes are completed in the order given by
+ * the `policy` option, which defaults to `"fifo"`.
+ *
+ * Concurrent reads and writes across multiple channels are
+ * provided by {@link Channel.select}, which emulates the
+ * semantics of Go's `select` statement, including its
+ * `default` case. {@link Channel.selectFrom} accepts any number
+ * of cases, and resolves to the outcome of the selected case.
  *
  * Iteration over all supplied channel reads is provided by
  * {@link Channel.iterate}, which emulates the semantics of
@@ -38,20 +276,60 @@ export class WriteCancelledException extends Error {}
  * until the channel is closed, or the optional `AbortSignal`
  * indicates that the iteration is cancelled.
  */
-export class Channel<T> {
-  private readSerial = Number.MIN_SAFE_INTEGER;
-  private writeSerial = Number.MIN_SAFE_INTEGER;
+export class Channel<T> implements Diagnosable {
+  private readonly parkedReaders: ParkedOperation<T>[] = [];
+  private readonly parkedWriters: ParkedOperation<T>[] = [];
+
+  private hasClosed = false;
+  // Set when the channel was closed with a reason, which reads reject with.
+  private closeReason: { error: unknown } | undefined = undefined;
+  private readonly drained: Promise<void>;
+  private resolveDrained = () => {};
 
-  private readCV = new Condition();
-  private writeReadCV = new Condition();
-  private writeWriteCV = new Condition();
+  private readonly bufferCapacity: number;
+  private readonly buffer: T[] = [];
+  private readonly policy: WakePolicy;
+  public readonly name: string | undefined;
 
-  private valueInTransit = false;
-  private closed = false;
-  private value: T | undefined;
+  public constructor(options: ChannelOptions = {}) {
+    const capacity = options.capacity ?? 0;
+    if (!Number.isInteger(capacity) || capacity < 0) {
+      throw new RangeError("Channel capacity must be a non-negative integer");
+    }
+    this.bufferCapacity = capacity;
+    this.policy = options.policy ?? "fifo";
+    this.name = options.name;
+    this.drained = new Promise((resolve) => (this.resolveDrained = resolve));
+  }
 
   public get isClosed(): boolean {
-    return this.closed;
+    return this.hasClosed;
+  }
+
+  /**
+   * Resolves once the channel has been closed and its buffer drained
+   *
+   * This resolves whether or not the channel was closed with a reason,
+   * which readers still receive from {@link Channel#read}.
+   */
+  public get closed(): Promise<void> {
+    return this.drained;
+  }
+
+  /**
+   * The number of values written to the buffer that have not yet been read
+   *
+   * This is always 0 for unbuffered channels.
+   */
+  public get length(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * The number of values that can be buffered without a matching read
+   */
+  public get capacity(): number {
+    return this.bufferCapacity;
   }
 
   /**
@@ -61,13 +339,100 @@ export class Channel<T> {
    * in a {@link ChannelClosedException} being thrown, and
    * all future reads and writes immediately result in a
    * {@link ChannelClosedException} being thrown.
+   *
+   * Values already in the buffer of a buffered channel
+   * remain available to readers. Reads only result in a
+   * {@link ChannelClosedException} once the buffer has
+   * been drained.
+   *
+   * @param reason - If given, reads that would result in a
+   * {@link ChannelClosedException} reject with this reason
+   * instead, and iteration rethrows it, so that a failed
+   * producer can tell its readers why it stopped. Writes
+   * still result in a {@link ChannelClosedException}.
+   */
+  public close(reason?: unknown): void {
+    if (this.hasClosed) return;
+    this.hasClosed = true;
+    if (reason !== undefined) this.closeReason = { error: reason };
+    activeInstrumentation()?.closed(this);
+    if (this.buffer.length === 0) this.resolveDrained();
+    for (const parked of this.parkedReaders.splice(0)) {
+      parked.cv.notifyAll();
+    }
+    for (const parked of this.parkedWriters.splice(0)) {
+      parked.cv.notifyAll();
+    }
+  }
+
+  /**
+   * Creates a write case for {@link Channel.select}
+   *
+   * The write only takes effect if the case is selected.
+   *
+   * @param value - The value to write if the case is selected
    */
-  public close(): void {
-    if (this.closed) return;
-    this.closed = true;
-    this.readCV.notifyAll();
-    this.writeReadCV.notifyAll();
-    this.writeWriteCV.notifyAll();
+  public writeCase(value: T): WriteCase<T> {
+    return new WriteCase(this, value);
+  }
+
+  // Chooses a parked operation that can still be completed according to the
+  // wake policy, skipping over operations belonging to the same select as the
+  // given claim.
+  private findParked(
+    parkedOperations: ParkedOperation<T>[],
+    claim: Claim
+  ): ParkedOperation<T> | undefined {
+    const eligible = parkedOperations.filter(
+      (parked) =>
+        parked.claim !== claim &&
+        parked.claim.isAvailable &&
+        parked.cv.waiting > 0
+    );
+    const parkedIndex = nextWaiterIndex(this.policy, eligible);
+    return parkedIndex < 0 ? undefined : eligible[parkedIndex];
+  }
+
+  private removeParked(
+    parkedOperations: ParkedOperation<T>[],
+    parked: ParkedOperation<T>
+  ): void {
+    const parkedIndex = parkedOperations.indexOf(parked);
+    if (parkedIndex < 0) return;
+    parkedOperations.splice(parkedIndex, 1);
+  }
+
+  private completeParked(
+    parkedOperations: ParkedOperation<T>[],
+    parked: ParkedOperation<T>
+  ): void {
+    parked.claim.take();
+    parked.done = true;
+    this.removeParked(parkedOperations, parked);
+    parked.cv.notifyOne();
+  }
+
+  private async park(
+    parkedOperations: ParkedOperation<T>[],
+    claim: Claim,
+    value: T | undefined,
+    signal: AbortSignal | undefined,
+    priority: number
+  ): Promise<{ parked: ParkedOperation<T>; fromNotify: boolean }> {
+    const parked: ParkedOperation<T> = {
+      claim,
+      cv: new Condition({}, this),
+      priority,
+      value,
+      done: false,
+    };
+    parkedOperations.push(parked);
+    try {
+      const fromNotify = await parked.cv.wait(signal);
+      return { parked, fromNotify };
+    } finally {
+      this.removeParked(parkedOperations, parked);
+    }
   }
 
   /**
@@ -81,73 +446,165 @@ export class Channel<T> {
    * outstanding writers do block each other. If two writes are established,
    * then a single read occurs, one of the two writes will remain outstanding.
    *
+   * If the channel is buffered, this method only blocks while the buffer
+   * is full, and completes as soon as the value has been buffered.
+   *
    * @param value - The value to send to a {@link Channel.read} call
-   * @param signal - An optional `AbortSignal` that can be used to cancel the write attempt
+   * @param signalOrOptions - An optional `AbortSignal` that can be used to cancel
+   * the write attempt, or {@link WaitOptions} with a timeout or deadline
+   * @param priority - Used by the `"priority"` policy, where higher priorities complete first
    * @throws WriteCancelledException if the optional `signal` has been aborted
+   * @throws TimeoutException if the timeout or deadline passed first
    * @throws ChannelClosedException if the underlying channel has been closed
    */
-  public async write(value: T, signal?: AbortSignal): Promise<void> {
-    while (this.valueInTransit && !this.closed) {
-      const fromNotify = await this.writeWriteCV.wait(signal);
-      // fromNotify === false means that we have been cancelled according to
-      // the signal.
-      if (!fromNotify) throw new WriteCancelledException();
+  public async write(
+    value: T,
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority = 0
+  ): Promise<void> {
+    const transfer = activeInstrumentation()?.transferStarted(this, "write");
+    const scope = new WaitScope(signalOrOptions);
+    try {
+      await this.writeInternal(value, new Claim(), scope.signal, priority);
+      transfer?.completed();
+    } catch (e: unknown) {
+      if (e instanceof WriteCancelledException) scope.throwIfTimedOut();
+      throw e;
+    } finally {
+      scope.dispose();
     }
-    if (this.closed) throw new ChannelClosedException();
-
-    this.valueInTransit = true;
-    this.value = value;
-    const nextReadSerial = ++this.writeSerial;
-    this.readCV.notifyOne();
+  }
 
-    let fromNotify = true;
-    while (this.readSerial < nextReadSerial && !this.closed && fromNotify) {
-      fromNotify = await this.writeReadCV.wait(signal);
+  private async writeInternal(
+    value: T,
+    claim: Claim,
+    signal: AbortSignal | undefined,
+    priority = 0
+  ): Promise<void> {
+    // Everything up until parking happens synchronously, which lets
+    // Channel.select tell whether any case could proceed without blocking.
+    if (signal?.aborted === true || !claim.isAvailable) {
+      throw new WriteCancelledException();
     }
+    if (this.hasClosed) rejectClosed(claim, new WriteCancelledException());
 
-    if (!fromNotify) {
-      // If we're cancelling the write, no reader showed up, so we have to
-      // nudge the read serial upwards so that future reads function correctly.
-      this.readSerial++;
+    // A parked reader implies an empty buffer, so we hand the value over.
+    const reader = this.findParked(this.parkedReaders, claim);
+    if (reader !== undefined) {
+      claim.take();
+      reader.value = value;
+      this.completeParked(this.parkedReaders, reader);
+      return;
     }
 
-    // By this point, the reader has read the value, or we've given up.
-    // We should signal another writer that it can write.
-    this.value = undefined; // Don't hold on to the value so that we can GC it
-    this.valueInTransit = false;
-    this.writeWriteCV.notifyOne();
+    if (this.buffer.length < this.bufferCapacity) {
+      claim.take();
+      this.buffer.push(value);
+      return;
+    }
 
+    const { parked, fromNotify } = await this.park(
+      this.parkedWriters,
+      claim,
+      value,
+      signal,
+      priority
+    );
+    // A reader has taken the value, possibly moving it into the buffer.
+    if (parked.done) return;
     if (!fromNotify) throw new WriteCancelledException();
-    if (this.closed) throw new ChannelClosedException();
+    rejectClosed(claim, new WriteCancelledException());
+  }
+
+  private readClosedError(): unknown {
+    return this.closeReason !== undefined
+      ? this.closeReason.error
+      : new ChannelClosedException();
   }
 
+  /**
+   * Called when a read starts waiting for a writer
+   *
+   * Subclasses that produce values on demand, like {@link PortChannel},
+   * override this to learn that a reader is waiting.
+   */
+  protected readerParked(): void {}
+
+  /**
+   * Called when a read that was waiting for a writer stops waiting
+   *
+   * @param received - Whether the read received a value, rather than
+   * being aborted or ended by the channel closing
+   */
+  protected readerUnparked(received: boolean): void {}
+
   private async readInternal(
-    shouldTakeRead: () => boolean,
-    signal: AbortSignal | undefined
+    claim: Claim,
+    signal: AbortSignal | undefined,
+    priority = 0
   ): Promise<T> {
-    while (
-      // If readSerial === writeSerial, we have to wait for a writer
-      // to give us a value. We'll say >= just to be safe.
-      this.readSerial >= this.writeSerial &&
-      !this.closed
-    ) {
-      const fromNotify = await this.readCV.wait(signal);
-      // fromNotify === false means that we have been cancelled according to
-      // the signal.
-      if (!fromNotify) throw new ReadCancelledException();
+    if (signal?.aborted === true || !claim.isAvailable) {
+      throw new ReadCancelledException();
     }
 
-    if (this.closed) throw new ChannelClosedException();
-    // We expose this to ensure at-most-once handler execution in selects.
-    if (!shouldTakeRead()) throw new ReadCancelledException();
+    if (this.buffer.length > 0) {
+      claim.take();
+      const result = this.buffer.shift()!;
+      // We've made room in the buffer, so the oldest parked writer can
+      // complete its write.
+      const writer = this.findParked(this.parkedWriters, claim);
+      if (writer !== undefined) {
+        this.buffer.push(writer.value as T);
+        writer.value = undefined; // Don't hold on to the value so that we can GC it
+        this.completeParked(this.parkedWriters, writer);
+      }
+      if (this.hasClosed && this.buffer.length === 0) this.resolveDrained();
+      return result;
+    }
 
-    const result = this.value!;
-    this.readSerial++;
-    this.writeReadCV.notifyOne();
-    return result;
-  }
+    const writer = this.findParked(this.parkedWriters, claim);
+    if (writer !== undefined) {
+      claim.take();
+      const result = writer.value as T;
+      writer.value = undefined;
+      this.completeParked(this.parkedWriters, writer);
+      return result;
+    }
+
+    // Closed channels still allow readers to drain the buffer, which has
+    // been handled above.
+    if (this.hasClosed) {
+      rejectClosed(
+        claim,
+        new ReadCancelledException(),
+        this.readClosedError()
+      );
+    }
 
-  private readonly alwaysTakeRead = () => true;
+    this.readerParked();
+    let parkResult: { parked: ParkedOperation<T>; fromNotify: boolean };
+    let received = false;
+    try {
+      parkResult = await this.park(
+        this.parkedReaders,
+        claim,
+        undefined,
+        signal,
+        priority
+      );
+      received = parkResult.parked.done;
+    } finally {
+      this.readerUnparked(received);
+    }
+    const { parked, fromNotify } = parkResult;
+    if (parked.done) return parked.value as T;
+    if (!fromNotify) throw new ReadCancelledException();
+    rejectClosed(
+      claim,
+      new ReadCancelledException(),
+      this.readClosedError()
+    );
+  }
 
   /**
    * Consumes a value produced by pending or future calls to {@link Channel#write}
@@ -160,158 +617,508 @@ export class Channel<T> {
    * outstanding readers do block each other. If two reads are established,
    * then a single write occurs, one of the two reads will remain outstanding.
    *
-   * @param signal - An optional `AbortSignal`
+   * If the channel is buffered, this method takes the oldest buffered value,
+   * and only blocks while the buffer is empty.
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @param priority - Used by the `"priority"` policy, where higher priorities complete first
    * @returns A value produced by a call to {@link Channel#write}
    * @throws ReadCancelledException if the optional `signal` has been aborted
+   * @throws TimeoutException if the timeout or deadline passed first
    * @throws ChannelClosedException if the underlying channel has been closed
+   * @throws The reason passed to {@link Channel#close}, instead of a ChannelClosedException
    */
-  public async read(signal?: AbortSignal): Promise<T> {
-    return await this.readInternal(this.alwaysTakeRead, signal);
+  public async read(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority = 0
+  ): Promise<T> {
+    const transfer = activeInstrumentation()?.transferStarted(this, "read");
+    const scope = new WaitScope(signalOrOptions);
+    try {
+      const value = await this.readInternal(
+        new Claim(),
+        scope.signal,
+        priority
+      );
+      transfer?.completed();
+      return value;
+    } catch (e: unknown) {
+      if (e instanceof ReadCancelledException) scope.throwIfTimedOut();
+      throw e;
+    } finally {
+      scope.dispose();
+    }
   }
 
   /**
    * Iterates over this channel by repeatedly calling {@link Channel#read}
    *
    * The iteration continues until either the channel has been closed with
-   * {@link Channel#close}, or the optional `AbortSignal` has been aborted.
-   * @param signal - An optional `AbortSignal` that can be used to cancel iteration
+   * {@link Channel#close} and drained, or the optional `AbortSignal` has been
+   * aborted.
+   * @param signalOrOptions - An optional `AbortSignal` that can be used to cancel
+   * iteration, or {@link WaitOptions} with a timeout or deadline for the whole iteration
+   * @throws TimeoutException if the timeout or deadline passed before the iteration ended
+   * @throws The reason passed to {@link Channel#close}, once the buffer has been drained
+   */
+  public async *iterate(
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): AsyncIterableIterator<T> {
+    const scope = new WaitScope(signalOrOptions);
+    try {
+      while (scope.signal?.aborted !== true) {
+        try {
+          const nextValue = await this.read(scope.signal);
+          yield nextValue;
+        } catch (e: unknown) {
+          if (e instanceof ReadCancelledException) break;
+          if (e instanceof ChannelClosedException) break;
+          throw e;
+        }
+      }
+      scope.throwIfTimedOut();
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Creates a scoped iteration over this channel, for use with `await using`
+   *
+   * ```ts
+   * await using values = channel.iteration({ closeOnDispose: true });
+   * for await (const value of values) {
+   *   // ...
+   * }
+   * ```
+   *
+   * @param options - An optional `signal`, and whether to close the channel on dispose
+   */
+  public iteration(options?: ChannelIterationOptions): ChannelIteration<T> {
+    return new ChannelIteration(this, options);
+  }
+
+  /**
+   * Creates a channel of the values of an iterable or async iterable
+   *
+   * Each value is only taken from the iterable once the previous one has
+   * been written to the channel, so slow readers of the channel pause the
+   * iteration. The channel is closed once the iteration ends, or closed
+   * with the error it threw as its reason. Closing the channel, or aborting
+   * the `signal`, ends the iteration early.
+   *
+   * @param options - Options for the new channel, and a `signal` that
+   * closes the channel when aborted
    */
-  public async *iterate(signal?: AbortSignal): AsyncIterableIterator<T> {
-    while (signal?.aborted !== true && !this.closed) {
+  public static from<T>(
+    source: AsyncIterable<T> | Iterable<T>,
+    options: ChannelFromOptions = {}
+  ): Channel<T> {
+    const { signal, ...channelOptions } = options;
+    const channel = new Channel<T>(channelOptions);
+    void channel.writeFrom(source, signal);
+    return channel;
+  }
+
+  private async writeFrom(
+    source: AsyncIterable<T> | Iterable<T>,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    const closeOnAbort = () => this.close();
+    signal?.addEventListener("abort", closeOnAbort, { once: true });
+    if (signal?.aborted === true) this.close();
+    try {
+      // Leaving the loop early ends the iteration.
+      for await (const value of source) {
+        await this.write(value);
+      }
+      this.close();
+    } catch (e: unknown) {
+      if (e instanceof ChannelClosedException) return;
+      this.close(e);
+    } finally {
+      signal?.removeEventListener("abort", closeOnAbort);
+    }
+  }
+
+  /**
+   * Writes every value read from this channel to `destination`
+   *
+   * Once this channel is closed and drained, `destination` is closed too,
+   * with the same reason if this channel was closed with one. If
+   * `destination` is closed first, this channel is closed so that its
+   * writers stop producing values. Aborting the `signal` stops piping
+   * without closing either channel, although a value that was already
+   * read from this channel is lost.
+   *
+   * @param options - An optional `signal`, and whether to leave either
+   * channel open
+   * @returns A promise that resolves once every value has been written
+   * @throws The reason this channel was closed with
+   * @throws ChannelClosedException if `destination` was closed first
+   * @throws ReadCancelledException or WriteCancelledException if the
+   * optional `signal` has been aborted
+   */
+  public async pipeTo(
+    destination: Channel<T>,
+    options: PipeOptions = {}
+  ): Promise<void> {
+    const { signal, preventClose = false, preventCancel = false } = options;
+    for (;;) {
+      let value: T;
       try {
-        const nextValue = await this.read(signal);
-        yield nextValue;
+        value = await this.read(signal);
       } catch (e: unknown) {
-        if (e instanceof ReadCancelledException) break;
         if (e instanceof ChannelClosedException) break;
+        if (!(e instanceof ReadCancelledException) && !preventClose) {
+          destination.close(e);
+        }
+        throw e;
+      }
+
+      try {
+        await destination.write(value, signal);
+      } catch (e: unknown) {
+        if (e instanceof ChannelClosedException && !preventCancel) {
+          this.close();
+        }
         throw e;
       }
     }
+    if (!preventClose) destination.close();
+  }
+
+  /**
+   * Creates a channel of the values read from a `ReadableStream`
+   *
+   * Each value is only read from the stream once the previous one has been
+   * written to the channel, so slow readers of the channel apply
+   * backpressure to the stream. The channel is closed once the stream ends,
+   * or closed with the stream's error as its reason if the stream fails.
+   * Closing the channel cancels the stream, even while the stream has no
+   * value ready, once the channel's buffer has been drained.
+   *
+   * @param stream - The stream to read from, which is locked to the channel
+   * @param options - Options for the new channel, and a `signal` that
+   * cancels the stream and closes the channel when aborted
+   */
+  public static fromReadable<T>(
+    stream: ReadableStream<T>,
+    options: ChannelFromOptions = {}
+  ): Channel<T> {
+    const { signal, ...channelOptions } = options;
+    const channel = new Channel<T>(channelOptions);
+    void channel.writeFromReader(stream.getReader(), signal);
+    return channel;
+  }
+
+  private async writeFromReader(
+    reader: ReadableStreamDefaultReader<T>,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    const cancel = () => void reader.cancel().catch(() => {});
+    signal?.addEventListener("abort", cancel, { once: true });
+    // A read of an idle stream would otherwise wait for its next value
+    // before finding the channel closed. Cancelling a stream that was
+    // already released fails, which is ignored.
+    void this.drained.then(cancel);
+    try {
+      for (;;) {
+        if (signal?.aborted === true) break;
+        const { done, value } = await reader.read();
+        if (done) break;
+        await this.write(value, signal);
+      }
+      this.close();
+    } catch (e: unknown) {
+      if (
+        e instanceof ChannelClosedException ||
+        e instanceof WriteCancelledException
+      ) {
+        // Nobody wants the rest of the stream.
+        this.close();
+        await reader.cancel().catch(() => {});
+      } else {
+        this.close(e);
+      }
+    } finally {
+      signal?.removeEventListener("abort", cancel);
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Creates a `ReadableStream` of the values read from this channel
+   *
+   * The stream only reads from the channel when its consumer pulls, so
+   * writes to an unbuffered channel still wait for the stream's consumer.
+   * The stream ends once the channel is closed and drained, or errors with
+   * the reason passed to {@link Channel#close}. Cancelling the stream
+   * closes the channel, so that writers stop producing values.
+   */
+  public toReadableStream(): ReadableStream<T> {
+    const controller = new AbortController();
+    return new ReadableStream<T>(
+      {
+        pull: async (streamController) => {
+          try {
+            streamController.enqueue(await this.read(controller.signal));
+          } catch (e: unknown) {
+            if (e instanceof ReadCancelledException) return;
+            if (e instanceof ChannelClosedException) {
+              streamController.close();
+            } else {
+              streamController.error(e);
+            }
+          }
+        },
+        cancel: () => {
+          controller.abort();
+          this.close();
+        },
+      },
+      { highWaterMark: 0 }
+    );
+  }
+
+  /**
+   * Creates a `WritableStream` that writes to this channel
+   *
+   * Each write to the stream completes when the matching
+   * {@link Channel#write} does, so a full channel applies backpressure to
+   * the stream's producer. Closing the stream closes the channel, and
+   * aborting it closes the channel with the abort reason, which readers
+   * then receive instead of a {@link ChannelClosedException}.
+   */
+  public toWritableStream(): WritableStream<T> {
+    return new WritableStream<T>({
+      write: async (value, streamController) => {
+        await this.write(value, streamController.signal);
+      },
+      close: () => this.close(),
+      abort: (reason: unknown) => this.close(reason),
+    });
   }
 
   private static async selectInternal(
-    options: [Channel<unknown>, handler: (x: unknown) => Promise<void>][],
-    signal?: AbortSignal
+    options: SelectOption[],
+    defaultHandler: (() => Promise<void>) | undefined,
+    waitOptions: WaitOptions
   ): Promise<void> {
-    if (signal?.aborted) return;
+    const scope = new WaitScope(waitOptions);
+    const signal = scope.signal;
+    if (signal?.aborted) {
+      scope.dispose();
+      scope.throwIfTimedOut();
+      return;
+    }
 
     const controller = new AbortController();
     const abortOnExternalSignal = () => controller.abort();
     signal?.addEventListener("abort", abortOnExternalSignal, { once: true });
 
     // This ensures that at most one handler will run, and that at most one
-    // channel will have its read value taken.
-    let didRead = false;
-    const shouldTakeRead = () => {
-      if (didRead) return false;
-      didRead = true;
-      return true;
-    };
+    // channel will have its read or write take effect.
+    const claim = new Claim();
 
     try {
-      const channelReads = options.map(([channel], i) =>
-        channel
-          .readInternal(shouldTakeRead, controller.signal)
+      const attempts = options.map((option) => {
+        const attempt =
+          option.kind === "read"
+            ? option.channel.readInternal(claim, controller.signal)
+            : option.channel
+                .writeInternal(option.value, claim, controller.signal)
+                .then(() => option.value);
+        return attempt
           .then((value) => {
-            controller.abort(); // Cancel as many of the other reads as we can
-            // Since we have the read value here, we'll execute the handler.
-            return options[i][1](value);
+            controller.abort(); // Cancel as many of the other cases as we can
+            // Since this case took effect, we'll execute the handler.
+            return option.handler(value);
           })
           .catch((x: unknown) => {
-            // We ignore ReadCancelledException here.
-            if (!(x instanceof ReadCancelledException)) throw x;
-          })
-      );
-      // Instead of Promise.race, we use a Promise.all paired with the above boolean
+            // We ignore cancellations here.
+            if (x instanceof ReadCancelledException) return;
+            if (x instanceof WriteCancelledException) return;
+            controller.abort();
+            throw x;
+          });
+      });
+
+      // Every case that can proceed without blocking takes the claim
+      // synchronously, so an available claim means that no case is ready.
+      if (defaultHandler !== undefined && claim.take()) {
+        controller.abort();
+        attempts.push(defaultHandler());
+      }
+
+      // Instead of Promise.race, we use a Promise.all paired with the above claim
       // to ensure at most one handler runs all the way to completion.
-      await Promise.all(channelReads);
+      await Promise.all(attempts);
+      // An available claim means that the select was cancelled.
+      if (claim.take()) scope.throwIfTimedOut();
     } finally {
       signal?.removeEventListener("abort", abortOnExternalSignal);
+      scope.dispose();
     }
   }
 
   /**
-   * Simulates Go's `select` statement with channel reads up to five channels
+   * Simulates Go's `select` statement with up to five channel reads or writes
+   *
+   * Each case is either a {@link Channel} to read from, or a {@link WriteCase}
+   * created by {@link Channel#writeCase}, and is followed by its handler.
+   * Exactly one case takes effect, and only its handler runs. Write case
+   * handlers receive the value that was written.
+   *
+   * If a `default` handler is passed in the trailing options, it runs instead
+   * of any case when no case can proceed without blocking.
+   *
+   * Use {@link Channel.selectFrom} to select over more than five cases.
    */
   public static async select<T1, T2>(
-    channel1: Channel<T1>,
+    case1: SelectCase<T1>,
     handler1: (value: T1) => Promise<void>,
-    channel2: Channel<T2>,
+    case2: SelectCase<T2>,
     handler2: (value: T2) => Promise<void>,
-    signal?: AbortSignal
+    signalOrOptions?: AbortSignal | SelectOptions
   ): Promise<void>;
   public static async select<T1, T2, T3>(
-    channel1: Channel<T1>,
+    case1: SelectCase<T1>,
     handler1: (value: T1) => Promise<void>,
-    channel2: Channel<T2>,
+    case2: SelectCase<T2>,
     handler2: (value: T2) => Promise<void>,
-    channel3: Channel<T3>,
+    case3: SelectCase<T3>,
     handler3: (value: T3) => Promise<void>,
-    signal?: AbortSignal
+    signalOrOptions?: AbortSignal | SelectOptions
   ): Promise<void>;
   public static async select<T1, T2, T3, T4>(
-    channel1: Channel<T1>,
+    case1: SelectCase<T1>,
     handler1: (value: T1) => Promise<void>,
-    channel2: Channel<T2>,
+    case2: SelectCase<T2>,
     handler2: (value: T2) => Promise<void>,
-    channel3: Channel<T3>,
+    case3: SelectCase<T3>,
     handler3: (value: T3) => Promise<void>,
-    channel4: Channel<T4>,
+    case4: SelectCase<T4>,
     handler4: (value: T4) => Promise<void>,
-    signal?: AbortSignal
+    signalOrOptions?: AbortSignal | SelectOptions
   ): Promise<void>;
   public static async select<T1, T2, T3, T4, T5>(
-    channel1: Channel<T1>,
+    case1: SelectCase<T1>,
     handler1: (value: T1) => Promise<void>,
-    channel2: Channel<T2>,
+    case2: SelectCase<T2>,
     handler2: (value: T2) => Promise<void>,
-    channel3: Channel<T3>,
+    case3: SelectCase<T3>,
     handler3: (value: T3) => Promise<void>,
-    channel4: Channel<T4>,
+    case4: SelectCase<T4>,
     handler4: (value: T4) => Promise<void>,
-    channel5: Channel<T5>,
+    case5: SelectCase<T5>,
     handler5: (value: T5) => Promise<void>,
-    signal?: AbortSignal
+    signalOrOptions?: AbortSignal | SelectOptions
   ): Promise<void>;
-  public static async select<T1, T2, T3, T4, T5>(
-    channel1: Channel<T1>,
-    handler1: (value: T1) => Promise<void>,
-    channel2: Channel<T2>,
-    handler2: (value: T2) => Promise<void>,
-    channel3orSignal?: Channel<T3> | AbortSignal,
-    handler3?: (value: T3) => Promise<void>,
-    channel4orSignal?: Channel<T4> | AbortSignal,
-    handler4?: (value: T4) => Promise<void>,
-    channel5orSignal?: Channel<T5> | AbortSignal,
-    handler5?: (value: T5) => Promise<void>,
-    signal?: AbortSignal
-  ): Promise<void> {
-    const waiting: [Channel<unknown>, (value: any) => Promise<void>][] = [
-      [channel1, handler1],
-      [channel2, handler2],
-    ];
-    let passedSignal: AbortSignal | undefined;
-    if (channel3orSignal instanceof Channel) {
-      if (handler3 !== undefined) {
-        waiting.push([channel3orSignal, handler3]);
+  public static async select(...args: unknown[]): Promise<void> {
+    const waiting: SelectOption[] = [];
+    let options: SelectOptions = {};
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg instanceof Channel || arg instanceof WriteCase) {
+        const handler = args[++i] as (value: unknown) => Promise<void>;
+        if (handler === undefined) continue;
+        waiting.push(Channel.toSelectOption(arg, handler));
+      } else if (arg instanceof AbortSignal) {
+        options = { signal: arg };
+      } else if (arg !== undefined) {
+        options = arg as SelectOptions;
       }
-    } else if (channel3orSignal !== undefined) {
-      passedSignal = channel3orSignal;
     }
-    if (channel4orSignal instanceof Channel) {
-      if (handler4 !== undefined) {
-        waiting.push([channel4orSignal, handler4]);
+    return await Channel.selectInternal(waiting, options.default, options);
+  }
+
+  /**
+   * Simulates Go's `select` statement over any number of channel reads or writes
+   *
+   * Unlike {@link Channel.select}, this resolves to the outcome of the case
+   * that took effect instead of running a handler for it. Passing an array
+   * of cases resolves to `{ index, channel, value }`, and passing a record
+   * of cases resolves to `{ key, channel, value }`, where `value` is the value
+   * that was read or written.
+   *
+   * If options are passed, this resolves to `undefined` when the select is
+   * cancelled by the `signal`, or when the `default` handler runs because no
+   * case could proceed without blocking.
+   *
+   * @param cases - An array or record of channels to read from, or {@link WriteCase}s to perform
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link SelectOptions}
+   * @throws TimeoutException if the timeout or deadline passed first
+   * @throws ChannelClosedException if the selected channel has been closed
+   */
+  public static async selectFrom<Cases extends readonly SelectCase<any>[]>(
+    cases: readonly [...Cases]
+  ): Promise<SelectResult<Cases>>;
+  public static async selectFrom<Cases extends readonly SelectCase<any>[]>(
+    cases: readonly [...Cases],
+    signalOrOptions: AbortSignal | SelectOptions | undefined
+  ): Promise<SelectResult<Cases> | undefined>;
+  public static async selectFrom<
+    Cases extends Record<string, SelectCase<any>>
+  >(cases: Cases): Promise<KeyedSelectResult<Cases>>;
+  public static async selectFrom<
+    Cases extends Record<string, SelectCase<any>>
+  >(
+    cases: Cases,
+    signalOrOptions: AbortSignal | SelectOptions | undefined
+  ): Promise<KeyedSelectResult<Cases> | undefined>;
+  public static async selectFrom(
+    cases: readonly SelectCase<unknown>[] | Record<string, SelectCase<unknown>>,
+    signalOrOptions?: AbortSignal | SelectOptions
+  ): Promise<object | undefined> {
+    const options =
+      signalOrOptions instanceof AbortSignal
+        ? { signal: signalOrOptions }
+        : signalOrOptions ?? {};
+
+    let result: object | undefined = undefined;
+    const waiting: SelectOption[] = [];
+    if (Array.isArray(cases)) {
+      cases.forEach((selectCase: SelectCase<unknown>, index: number) => {
+        const channel = Channel.channelOf(selectCase);
+        waiting.push(
+          Channel.toSelectOption(selectCase, async (value) => {
+            result = { index, channel, value };
+          })
+        );
+      });
+    } else {
+      for (const [key, selectCase] of Object.entries(cases)) {
+        const channel = Channel.channelOf(selectCase);
+        waiting.push(
+          Channel.toSelectOption(selectCase, async (value) => {
+            result = { key, channel, value };
+          })
+        );
       }
-    } else if (channel4orSignal !== undefined) {
-      passedSignal = channel4orSignal;
     }
-    if (channel5orSignal instanceof Channel) {
-      if (handler5 !== undefined) {
-        waiting.push([channel5orSignal, handler5]);
-      }
-    } else if (channel5orSignal !== undefined) {
-      passedSignal = channel5orSignal;
+
+    await Channel.selectInternal(waiting, options.default, options);
+    return result;
+  }
+
+  private static channelOf(selectCase: SelectCase<unknown>): Channel<unknown> {
+    return selectCase instanceof WriteCase ? selectCase.channel : selectCase;
+  }
+
+  private static toSelectOption(
+    selectCase: SelectCase<unknown>,
+    handler: (value: unknown) => Promise<void>
+  ): SelectOption {
+    if (selectCase instanceof WriteCase) {
+      return {
+        kind: "write",
+        channel: selectCase.channel,
+        value: selectCase.value,
+        handler,
+      };
     }
-    return await Channel.selectInternal(waiting, signal ?? passedSignal);
+    return { kind: "read", channel: selectCase, handler };
   }
 }
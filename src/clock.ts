@@ -0,0 +1,196 @@
+/**
+ * A source of time and timers
+ *
+ * Everything in this library that waits for time to pass, like
+ * {@link sleep} and the rate limiters, takes a Clock so that tests can
+ * substitute a {@link VirtualClock} for the {@link systemClock}.
+ */
+export interface Clock {
+  /**
+   * @returns The current time in milliseconds
+   */
+  now(): number;
+
+  /**
+   * Calls `callback` once `delayMs` milliseconds have passed
+   *
+   * @returns A function that cancels the timer if it has not yet fired
+   */
+  schedule(callback: () => void, delayMs: number): () => void;
+}
+
+export interface ClockOptions {
+  /** Defaults to the {@link systemClock} */
+  clock?: Clock;
+}
+
+/**
+ * The Clock backed by `Date.now` and the global `setTimeout`
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  schedule: (callback, delayMs) => {
+    const timeout = setTimeout(callback, delayMs);
+    return () => clearTimeout(timeout);
+  },
+};
+
+interface VirtualTimer {
+  readonly at: number;
+  readonly callback: () => void;
+}
+
+export interface VirtualClockOptions {
+  /** The time the clock starts at, defaulting to 0 */
+  startTime?: number;
+  /**
+   * Whether to jump straight to the next timer once the code resumed by
+   * the previous one has settled, defaulting to false
+   *
+   * Code counts as settled once a few turns of the real event loop in a
+   * row have passed without any timer being scheduled. This is only a
+   * heuristic: code that waits on real I/O or real timers for longer may
+   * find that virtual time has jumped ahead in the meantime.
+   */
+  autoAdvance?: boolean;
+}
+
+// Waits for a turn of the real event loop, so that every promise
+// continuation queued by a timer callback gets to run.
+function nextTurn(): Promise<void> {
+  return new Promise((resolve) => {
+    if (typeof setImmediate === "function") {
+      setImmediate(resolve);
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
+}
+
+// How many turns of the real event loop in a row must pass without a timer
+// being scheduled before autoAdvance fires the next one.
+const autoAdvanceIdleTurns = 3;
+
+/**
+ * A Clock whose time only moves when told to
+ *
+ * Time is advanced manually with {@link VirtualClock#advance} or
+ * {@link VirtualClock#runUntilIdle}, which fire due timers in order of
+ * their due time, and in order of scheduling for equal due times. With
+ * `autoAdvance`, the clock instead jumps to the next timer on its own once
+ * everything else has settled, so that code that only waits on this clock
+ * runs to completion without any real time passing.
+ */
+export class VirtualClock implements Clock {
+  private currentTime: number;
+  // Kept sorted by due time, then by scheduling order.
+  private readonly timers: VirtualTimer[] = [];
+  private readonly autoAdvance: boolean;
+  private autoAdvancing = false;
+  // Counts every timer ever scheduled, so autoAdvance can tell when code
+  // has stopped scheduling new ones.
+  private scheduledCount = 0;
+
+  public constructor(options: VirtualClockOptions = {}) {
+    this.currentTime = options.startTime ?? 0;
+    this.autoAdvance = options.autoAdvance ?? false;
+  }
+
+  public now(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * The number of timers that have not yet fired or been cancelled
+   */
+  public get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  public schedule(callback: () => void, delayMs: number): () => void {
+    const timer: VirtualTimer = {
+      at: this.currentTime + Math.max(0, delayMs),
+      callback,
+    };
+    let index = this.timers.length;
+    while (index > 0 && this.timers[index - 1].at > timer.at) index--;
+    this.timers.splice(index, 0, timer);
+    this.scheduledCount++;
+
+    if (this.autoAdvance && !this.autoAdvancing) {
+      this.autoAdvancing = true;
+      void this.runAutoAdvance();
+    }
+
+    return () => {
+      const timerIndex = this.timers.indexOf(timer);
+      if (timerIndex >= 0) this.timers.splice(timerIndex, 1);
+    };
+  }
+
+  private fireNext(): void {
+    const timer = this.timers.shift()!;
+    this.currentTime = Math.max(this.currentTime, timer.at);
+    timer.callback();
+  }
+
+  // Waits until the real event loop has turned autoAdvanceIdleTurns times
+  // in a row without a timer being scheduled.
+  private async settle(): Promise<void> {
+    for (let idleTurns = 0; idleTurns < autoAdvanceIdleTurns; ) {
+      const scheduled = this.scheduledCount;
+      await nextTurn();
+      idleTurns = this.scheduledCount === scheduled ? idleTurns + 1 : 0;
+    }
+  }
+
+  private async runAutoAdvance(): Promise<void> {
+    try {
+      await this.settle();
+      while (this.timers.length > 0) {
+        this.fireNext();
+        await this.settle();
+      }
+    } finally {
+      this.autoAdvancing = false;
+    }
+  }
+
+  /**
+   * Moves time forward, firing every timer that becomes due along the way
+   *
+   * Timers scheduled by the callbacks, or by code they resume, also fire
+   * if they fall due before the new time.
+   *
+   * @param ms - How many milliseconds to move forward
+   */
+  public async advance(ms: number): Promise<void> {
+    const target = this.currentTime + ms;
+    await nextTurn();
+    while (this.timers.length > 0 && this.timers[0].at <= target) {
+      this.fireNext();
+      await nextTurn();
+    }
+    this.currentTime = Math.max(this.currentTime, target);
+  }
+
+  /**
+   * Fires timers in order until none remain
+   *
+   * @param maxTimers - How many timers to fire before giving up, for code
+   * that keeps scheduling new timers forever
+   * @throws Error if more than `maxTimers` timers fire
+   */
+  public async runUntilIdle(maxTimers = 10000): Promise<void> {
+    await nextTurn();
+    for (let fired = 0; this.timers.length > 0; fired++) {
+      if (fired >= maxTimers) {
+        throw new Error(
+          `VirtualClock still had timers pending after firing ${maxTimers}`
+        );
+      }
+      this.fireNext();
+      await nextTurn();
+    }
+  }
+}
@@ -0,0 +1,499 @@
+import {
+  Channel,
+  ChannelClosedException,
+  ReadCancelledException,
+  WriteCancelledException,
+} from "./channel";
+import { ClockOptions, systemClock } from "./clock";
+import { TimeoutException } from "./timeout";
+
+export interface StageOptions {
+  /**
+   * Stops the stage when aborted, closing its output channels
+   */
+  signal?: AbortSignal;
+  /**
+   * The buffer capacity of each output channel, defaulting to 0
+   */
+  capacity?: number;
+  /**
+   * Receives an error thrown by the stage's function. The stage stops
+   * either way, and closes its outputs with the error as their reason, so
+   * that their readers see the failure instead of a clean close.
+   */
+  onError?: (error: unknown) => void;
+}
+
+export interface BatchOptions extends StageOptions, ClockOptions {
+  /**
+   * Emits a partial batch once its first value has waited this long,
+   * instead of waiting for the batch to fill
+   */
+  maxWaitMs?: number;
+}
+
+// Errors that mean a stage's input or output has gone away, or that the
+// stage was cancelled, as opposed to a failure of the stage's function.
+function isStageEnd(e: unknown): boolean {
+  return (
+    e instanceof ChannelClosedException ||
+    e instanceof ReadCancelledException ||
+    e instanceof WriteCancelledException
+  );
+}
+
+// Resolves once the stage writing to a channel has ended and closed it.
+const stageCompletions = new WeakMap<Channel<unknown>, Promise<void>>();
+
+/**
+ * Runs the body of a stage, closing its outputs once it ends for any reason
+ *
+ * The body is given a signal that aborts when the stage's own signal does,
+ * or when the body calls the given `fail` function, so that concurrent
+ * workers within one stage stop together.
+ */
+function runStage(
+  outputs: Channel<unknown>[],
+  options: StageOptions,
+  body: (signal: AbortSignal, fail: (error: unknown) => void) => Promise<void>
+): void {
+  let finished = () => {};
+  const completion = new Promise<void>((resolve) => (finished = resolve));
+  for (const output of outputs) stageCompletions.set(output, completion);
+  void runStageBody(outputs, options, body).finally(() => finished());
+}
+
+async function runStageBody(
+  outputs: Channel<unknown>[],
+  options: StageOptions,
+  body: (signal: AbortSignal, fail: (error: unknown) => void) => Promise<void>
+): Promise<void> {
+  const controller = new AbortController();
+  const abortOnExternalSignal = () => controller.abort();
+  options.signal?.addEventListener("abort", abortOnExternalSignal, {
+    once: true,
+  });
+  if (options.signal?.aborted === true) controller.abort();
+
+  const failures: unknown[] = [];
+  const fail = (error: unknown) => {
+    if (isStageEnd(error)) return;
+    failures.push(error);
+    controller.abort();
+  };
+
+  try {
+    await body(controller.signal, fail);
+  } catch (e: unknown) {
+    fail(e);
+  } finally {
+    options.signal?.removeEventListener("abort", abortOnExternalSignal);
+  }
+
+  const failure = failures.length > 0 ? failures[0] : undefined;
+  for (const output of outputs) output.close(failure);
+  if (failures.length > 0) options.onError?.(failure);
+}
+
+/**
+ * Runs `worker` `concurrency` times in parallel within a stage
+ */
+async function runWorkers(
+  concurrency: number,
+  fail: (error: unknown) => void,
+  worker: () => Promise<void>
+): Promise<void> {
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < concurrency; i++) {
+    workers.push(worker().catch(fail));
+  }
+  await Promise.all(workers);
+}
+
+function validateCount(name: string, count: number): void {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new RangeError(`${name} must be a positive integer`);
+  }
+}
+
+/**
+ * Transforms every value read from `source`
+ *
+ * @returns A channel of transformed values, closed once `source` is closed and drained
+ */
+export function map<T, U>(
+  source: Channel<T>,
+  fn: (value: T, signal: AbortSignal) => U | Promise<U>,
+  options: StageOptions = {}
+): Channel<U> {
+  return mapConcurrent(source, 1, fn, options);
+}
+
+/**
+ * Transforms values read from `source` with up to `concurrency` calls to
+ * `fn` in flight at once
+ *
+ * Transformed values are written as soon as they are ready, so they may
+ * be out of order with respect to `source`.
+ *
+ * @returns A channel of transformed values, closed once `source` is closed and drained
+ * @throws RangeError if `concurrency` is not a positive integer
+ */
+export function mapConcurrent<T, U>(
+  source: Channel<T>,
+  concurrency: number,
+  fn: (value: T, signal: AbortSignal) => U | Promise<U>,
+  options: StageOptions = {}
+): Channel<U> {
+  validateCount("Concurrency", concurrency);
+  const output = new Channel<U>({ capacity: options.capacity });
+  runStage([output], options, async (signal, fail) => {
+    await runWorkers(concurrency, fail, async () => {
+      for await (const value of source.iterate(signal)) {
+        await output.write(await fn(value, signal), signal);
+      }
+    });
+  });
+  return output;
+}
+
+/**
+ * Passes on only the values read from `source` that satisfy `predicate`
+ *
+ * @returns A channel of matching values, closed once `source` is closed and drained
+ */
+export function filter<T>(
+  source: Channel<T>,
+  predicate: (value: T, signal: AbortSignal) => boolean | Promise<boolean>,
+  options: StageOptions = {}
+): Channel<T> {
+  const output = new Channel<T>({ capacity: options.capacity });
+  runStage([output], options, async (signal) => {
+    for await (const value of source.iterate(signal)) {
+      if (await predicate(value, signal)) await output.write(value, signal);
+    }
+  });
+  return output;
+}
+
+/**
+ * Combines several channels into one
+ *
+ * Values are passed on in the order they are read, and the output is
+ * closed once every input has been closed and drained. Options may be
+ * passed after the channels.
+ */
+export function merge<T>(...channels: Channel<T>[]): Channel<T>;
+export function merge<T>(
+  ...channelsAndOptions: [...Channel<T>[], StageOptions]
+): Channel<T>;
+export function merge<T>(
+  ...args: (Channel<T> | StageOptions)[]
+): Channel<T> {
+  const channels = args.filter(
+    (arg): arg is Channel<T> => arg instanceof Channel
+  );
+  const options =
+    args.find((arg): arg is StageOptions => !(arg instanceof Channel)) ?? {};
+
+  const output = new Channel<T>({ capacity: options.capacity });
+  runStage([output], options, async (signal, fail) => {
+    const forward = async (channel: Channel<T>) => {
+      for await (const value of channel.iterate(signal)) {
+        await output.write(value, signal);
+      }
+    };
+    await Promise.all(channels.map((channel) => forward(channel).catch(fail)));
+  });
+  return output;
+}
+
+/**
+ * Distributes the values read from `source` across `count` channels
+ *
+ * Each value goes to exactly one output, whichever can accept it first,
+ * so that slow consumers receive fewer values. Outputs closed by their
+ * consumers are skipped, and every output is closed once `source` is
+ * closed and drained, or once every output has been closed.
+ *
+ * @throws RangeError if `count` is not a positive integer
+ */
+export function fanOut<T>(
+  source: Channel<T>,
+  count: number,
+  options: StageOptions = {}
+): Channel<T>[] {
+  validateCount("Fan-out count", count);
+  const outputs: Channel<T>[] = [];
+  for (let i = 0; i < count; i++) {
+    outputs.push(new Channel<T>({ capacity: options.capacity }));
+  }
+  runStage(outputs, options, async (signal) => {
+    for await (const value of source.iterate(signal)) {
+      for (;;) {
+        const open = outputs.filter((output) => !output.isClosed);
+        if (open.length < 1) return;
+        try {
+          const written = await Channel.selectFrom(
+            open.map((output) => output.writeCase(value)),
+            signal
+          );
+          if (written === undefined) return;
+          break;
+        } catch (e: unknown) {
+          // The chosen output was closed, so we try the others.
+          if (!(e instanceof ChannelClosedException)) throw e;
+        }
+      }
+    }
+  });
+  return outputs;
+}
+
+/**
+ * Copies every value read from `source` to each of `count` channels
+ *
+ * Each value is written to every output before the next value is read,
+ * so the slowest consumer sets the pace. Outputs closed by their consumers
+ * stop receiving values, and every output is closed once `source` is
+ * closed and drained.
+ *
+ * @throws RangeError if `count` is not a positive integer
+ */
+export function tee<T>(
+  source: Channel<T>,
+  count = 2,
+  options: StageOptions = {}
+): Channel<T>[] {
+  validateCount("Tee count", count);
+  const outputs: Channel<T>[] = [];
+  for (let i = 0; i < count; i++) {
+    outputs.push(new Channel<T>({ capacity: options.capacity }));
+  }
+  runStage(outputs, options, async (signal) => {
+    for await (const value of source.iterate(signal)) {
+      await Promise.all(
+        outputs.map(async (output) => {
+          try {
+            await output.write(value, signal);
+          } catch (e: unknown) {
+            if (!(e instanceof ChannelClosedException)) throw e;
+          }
+        })
+      );
+    }
+  });
+  return outputs;
+}
+
+/**
+ * Groups the values read from `source` into arrays of up to `size` values
+ *
+ * A partial batch is emitted once `source` is closed, or once its first
+ * value has waited for `maxWaitMs` if that option is passed.
+ *
+ * @throws RangeError if `size` is not a positive integer
+ */
+export function batch<T>(
+  source: Channel<T>,
+  size: number,
+  options: BatchOptions = {}
+): Channel<T[]> {
+  validateCount("Batch size", size);
+  const clock = options.clock ?? systemClock;
+  const output = new Channel<T[]>({ capacity: options.capacity });
+  runStage([output], options, async (signal) => {
+    let pending: T[] = [];
+    let deadline: number | undefined = undefined;
+    const flush = async () => {
+      const values = pending;
+      pending = [];
+      deadline = undefined;
+      await output.write(values, signal);
+    };
+
+    for (;;) {
+      let value: T;
+      try {
+        value = await source.read({ signal, deadline, clock });
+      } catch (e: unknown) {
+        if (e instanceof TimeoutException) {
+          await flush();
+          continue;
+        }
+        if (e instanceof ChannelClosedException) break;
+        throw e;
+      }
+      if (pending.length < 1 && options.maxWaitMs !== undefined) {
+        deadline = clock.now() + options.maxWaitMs;
+      }
+      pending.push(value);
+      if (pending.length >= size) await flush();
+    }
+    if (pending.length > 0) await flush();
+  });
+  return output;
+}
+
+export interface PipelineOptions {
+  /**
+   * Cancels every stage of the pipeline when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * The buffer capacity of the channels between stages, defaulting to 0
+   */
+  capacity?: number;
+}
+
+// State shared by every stage of one pipeline.
+class PipelineRun {
+  public readonly controller = new AbortController();
+  public failure: { error: unknown } | undefined = undefined;
+  private runningStages = 0;
+  private readonly abortOnSignal = () => this.controller.abort();
+
+  public constructor(public readonly options: PipelineOptions) {
+    if (options.signal?.aborted === true) this.controller.abort();
+  }
+
+  // The pipeline's signal is only listened to while stages are running, so
+  // that a long-lived signal doesn't keep finished pipelines alive.
+  public stageStarted(completion: Promise<void>): void {
+    if (this.runningStages++ === 0) {
+      this.options.signal?.addEventListener("abort", this.abortOnSignal, {
+        once: true,
+      });
+    }
+    void completion.then(() => {
+      if (--this.runningStages > 0) return;
+      this.options.signal?.removeEventListener("abort", this.abortOnSignal);
+    });
+  }
+
+  public stageOptions(): StageOptions {
+    return {
+      signal: this.controller.signal,
+      capacity: this.options.capacity,
+      onError: (error) => {
+        this.failure ??= { error };
+        this.controller.abort();
+      },
+    };
+  }
+}
+
+/**
+ * A chain of stages built by {@link pipeline}
+ *
+ * Each method adds a stage reading from the output of the previous one, and
+ * returns a new Pipeline whose {@link Pipeline#channel} is that stage's output.
+ * Closing the source closes every stage's output in turn once the values
+ * in flight have drained. Aborting the pipeline's signal, calling
+ * {@link Pipeline#cancel}, or an error thrown by any stage's function stops
+ * every stage and closes every output, but leaves the source open.
+ */
+export class Pipeline<T> {
+  public constructor(
+    public readonly channel: Channel<T>,
+    private readonly run: PipelineRun,
+    private readonly stages: Channel<unknown>[] = []
+  ) {}
+
+  private append<U>(output: Channel<U>): Pipeline<U> {
+    this.run.stageStarted(stageCompletions.get(output)!);
+    return new Pipeline(output, this.run, [...this.stages, output]);
+  }
+
+  public map<U>(
+    fn: (value: T, signal: AbortSignal) => U | Promise<U>
+  ): Pipeline<U> {
+    return this.append(map(this.channel, fn, this.run.stageOptions()));
+  }
+
+  public mapConcurrent<U>(
+    concurrency: number,
+    fn: (value: T, signal: AbortSignal) => U | Promise<U>
+  ): Pipeline<U> {
+    return this.append(
+      mapConcurrent(this.channel, concurrency, fn, this.run.stageOptions())
+    );
+  }
+
+  public filter(
+    predicate: (value: T, signal: AbortSignal) => boolean | Promise<boolean>
+  ): Pipeline<T> {
+    return this.append(filter(this.channel, predicate, this.run.stageOptions()));
+  }
+
+  public batch(
+    size: number,
+    options: Pick<BatchOptions, "maxWaitMs" | "clock"> = {}
+  ): Pipeline<T[]> {
+    return this.append(
+      batch(this.channel, size, { ...this.run.stageOptions(), ...options })
+    );
+  }
+
+  /**
+   * Stops every stage of the pipeline
+   */
+  public cancel(): void {
+    this.run.controller.abort();
+  }
+
+  /**
+   * Reads every value from the end of the pipeline
+   *
+   * @returns The values, once every stage has finished
+   * @throws The first error thrown by any stage's function
+   */
+  public async toArray(): Promise<T[]> {
+    const values: T[] = [];
+    await this.forEach(async (value) => {
+      values.push(value);
+    });
+    return values;
+  }
+
+  /**
+   * Calls `fn` with every value from the end of the pipeline
+   *
+   * An error thrown by `fn` cancels the pipeline and is rethrown.
+   *
+   * @throws The first error thrown by `fn` or by any stage's function
+   */
+  public async forEach(
+    fn: (value: T, signal: AbortSignal) => Promise<void>
+  ): Promise<void> {
+    const signal = this.run.controller.signal;
+    try {
+      for await (const value of this.channel.iterate(signal)) {
+        await fn(value, signal);
+      }
+    } catch (e: unknown) {
+      this.cancel();
+      throw e;
+    }
+    // Every stage reports its failure before it completes.
+    await Promise.all(this.stages.map((stage) => stageCompletions.get(stage)));
+    if (this.run.failure !== undefined) throw this.run.failure.error;
+  }
+}
+
+/**
+ * Starts building a pipeline of stages that read from `source`
+ *
+ * ```ts
+ * const results = await pipeline(urls, { signal })
+ *   .mapConcurrent(4, (url, signal) => fetch(url, { signal }))
+ *   .filter((response) => response.ok)
+ *   .toArray();
+ * ```
+ */
+export function pipeline<T>(
+  source: Channel<T>,
+  options: PipelineOptions = {}
+): Pipeline<T> {
+  return new Pipeline(source, new PipelineRun(options));
+}
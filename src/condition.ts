@@ -1,40 +1,108 @@
-export class Condition {
-  private readonly handlers: (() => void)[] = [];
+import {
+  Diagnosable,
+  NamedOptions,
+  WaitRecord,
+  activeDiagnostics,
+} from "./diagnostics";
+import { PolicyOptions, WakePolicy, nextWaiterIndex, wakeOrder } from "./policy";
+import { WaitOptions, WaitScope } from "./timeout";
+
+export interface ConditionOptions extends PolicyOptions, NamedOptions {}
+
+interface Waiter {
+  readonly notify: () => void;
+  readonly priority: number;
+}
+
+export class Condition implements Diagnosable {
+  private readonly waiters: Waiter[] = [];
+  private readonly policy: WakePolicy;
+  private readonly owner: Diagnosable;
+  public readonly name: string | undefined;
+
+  /**
+   * @param options - The `policy` decides which waiter `notifyOne` wakes, and
+   * defaults to `"random"`.
+   * @param owner - Primitives built on a Condition pass themselves here, so
+   * that diagnostics attribute waits to them instead of to the Condition.
+   */
+  public constructor(options: ConditionOptions = {}, owner?: Diagnosable) {
+    this.policy = options.policy ?? "random";
+    this.name = options.name;
+    this.owner = owner ?? this;
+  }
 
   /**
    * The number of outstanding calls to `wait` on this Condition
    */
   public get waiting(): number {
-    return this.handlers.length;
+    return this.waiters.length;
+  }
+
+  private removeFromWaiters(waiter: Waiter): void {
+    const waiterIndex = this.waiters.indexOf(waiter);
+    if (waiterIndex < 0) return;
+    this.removeFromWaitersAt(waiterIndex);
   }
 
-  private removeFromHandlers(handler: () => void): void {
-    const notifyCallbackIndex = this.handlers.indexOf(handler);
-    if (notifyCallbackIndex < 0) return;
-    // Here, we're removing the handler callback.
-    if (this.handlers.length > 1) {
+  private removeFromWaitersAt(waiterIndex: number): void {
+    if (this.policy !== "random") {
+      // Every other policy depends on the order that waiters arrived in.
+      this.waiters.splice(waiterIndex, 1);
+      return;
+    }
+    // Here, we're removing the waiter.
+    if (this.waiters.length > 1) {
       // Splice will move all elements to the right, left. This could turn
       // into an O(n) operation, so we'll turn this into O(1) by copying the
       // last element into this index, then popping the end of the array.
-      this.handlers[notifyCallbackIndex] =
-        this.handlers[this.handlers.length - 1];
+      this.waiters[waiterIndex] = this.waiters[this.waiters.length - 1];
     }
-    this.handlers.pop();
+    this.waiters.pop();
   }
 
   /**
    * Waits for a notification from either `notifyOne` or `notifyAll`
    *
-   * @param abortSignal - If passed, the caller can abort the wait sequence.
+   * @param signalOrOptions - If passed, the caller can abort the wait sequence,
+   * or give up on it after a timeout.
+   * @param priority - Used by the `"priority"` policy, where higher priorities are woken first.
    * @returns Whether the wait was caused by a notification. If false, the wait has been aborted.
+   * @throws TimeoutException if the timeout or deadline passed before a notification
+   * @throws DeadlockDetectedException if diagnostics find this wait in a deadlock
    */
-  public async wait(abortSignal?: AbortSignal): Promise<boolean> {
+  public async wait(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority = 0
+  ): Promise<boolean> {
+    const scope = new WaitScope(signalOrOptions);
+    try {
+      const fromNotify = await this.waitForNotify(scope.signal, priority);
+      if (!fromNotify) scope.throwIfTimedOut();
+      return fromNotify;
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  private async waitForNotify(
+    abortSignal: AbortSignal | undefined,
+    priority: number
+  ): Promise<boolean> {
     if (abortSignal?.aborted === true) return false;
 
-    return await new Promise((resolve) => {
+    const diagnostics = activeDiagnostics();
+    return await new Promise((resolve, reject) => {
+      let settled = false;
+      let diagnosticWait: WaitRecord | undefined = undefined;
+
       const cleanup = () => {
+        settled = true;
         abortSignal?.removeEventListener("abort", resolveByAbort);
-        this.removeFromHandlers(resolveByNotify);
+        this.removeFromWaiters(waiter);
+        if (diagnosticWait !== undefined) {
+          diagnostics?.waitEnded(this.owner, diagnosticWait);
+        }
       };
 
       const resolveByAbort = () => {
@@ -47,37 +115,52 @@ export class Condition {
         resolve(true);
       };
 
+      const rejectByDiagnostics = (error: Error) => {
+        if (settled) return;
+        cleanup();
+        reject(error);
+      };
+
+      const waiter: Waiter = { notify: resolveByNotify, priority };
+
       // If the abortController is given, we'll want to resolve this promise immediately.
       abortSignal?.addEventListener("abort", resolveByAbort);
-      this.handlers.push(resolveByNotify);
+      this.waiters.push(waiter);
+
+      if (diagnostics !== undefined) {
+        diagnosticWait = diagnostics.waitStarted(
+          this.owner,
+          rejectByDiagnostics
+        );
+        // Starting the wait can detect a deadlock and end it immediately.
+        if (settled) diagnostics.waitEnded(this.owner, diagnosticWait);
+      }
     });
   }
 
   /**
-   * Notifies exactly one call to `wait`.
+   * Notifies exactly one call to `wait`, chosen according to the wake policy.
    *
    * @returns void
    */
   public notifyOne(): void {
-    if (this.handlers.length < 1) return;
-    // Math.random() will return [0 , 1), so we only have to floor its
-    // multiplication by the length to get a valid 0-based index.
-    const handlerTarget = Math.floor(Math.random() * this.handlers.length);
-    const handler = this.handlers[handlerTarget];
-    this.removeFromHandlers(handler);
-    handler();
+    const waiterIndex = nextWaiterIndex(this.policy, this.waiters);
+    if (waiterIndex < 0) return;
+    const waiter = this.waiters[waiterIndex];
+    this.removeFromWaitersAt(waiterIndex);
+    waiter.notify();
   }
 
   /**
-   * Notifies all outstanding calls to `wait` at once.
+   * Notifies all outstanding calls to `wait` at once, in the order of the wake policy.
    *
    * @returns void
    */
   public notifyAll(): void {
-    if (this.handlers.length < 1) return;
-    const allHandlers = this.handlers.splice(0);
-    for (const handler of allHandlers) {
-      handler();
+    if (this.waiters.length < 1) return;
+    const allWaiters = wakeOrder(this.policy, this.waiters.splice(0));
+    for (const waiter of allWaiters) {
+      waiter.notify();
     }
   }
 }
@@ -0,0 +1,418 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Raised into the waits of tasks involved in a deadlock
+ *
+ * Only raised when diagnostics have been enabled with {@link enableDiagnostics},
+ * either automatically with `raiseOnDeadlock`, or by calling
+ * {@link DiagnosticsRegistry#raiseDeadlocks}.
+ */
+export class DeadlockDetectedException extends Error {
+  public constructor(public readonly deadlock: Deadlock) {
+    super(describeDeadlock(deadlock));
+  }
+}
+
+export interface NamedOptions {
+  /**
+   * A name identifying the primitive in diagnostics
+   */
+  name?: string;
+}
+
+/**
+ * A primitive that can be reported on by diagnostics
+ */
+export interface Diagnosable {
+  readonly name: string | undefined;
+}
+
+/**
+ * A logical task, established by {@link diagnosticTask}
+ *
+ * Holds and waits made outside of {@link diagnosticTask} are each
+ * attributed to their own anonymous task, without a label.
+ */
+export interface DiagnosticTask {
+  readonly id: number;
+  readonly label: string | undefined;
+}
+
+export interface HolderSnapshot {
+  task: DiagnosticTask;
+  handle: number;
+  since: number;
+  stack: string | undefined;
+}
+
+export interface WaiterSnapshot {
+  task: DiagnosticTask;
+  since: number;
+  stack: string | undefined;
+}
+
+export interface ResourceSnapshot {
+  kind: string;
+  name: string | undefined;
+  holders: HolderSnapshot[];
+  waiters: WaiterSnapshot[];
+}
+
+/**
+ * A cycle in the wait-for graph
+ *
+ * Each step is a task waiting for a resource held by the task of the
+ * next step, and the task of the last step waits for a resource held
+ * by the task of the first step.
+ */
+export interface Deadlock {
+  steps: { task: DiagnosticTask; waitingFor: ResourceSnapshot }[];
+}
+
+export interface EnableDiagnosticsOptions {
+  /**
+   * Whether to record the stack trace of every hold and wait. Defaults to true.
+   */
+  captureStacks?: boolean;
+  /**
+   * Whether to check for deadlocks whenever a wait starts or a resource is
+   * acquired, raising a {@link DeadlockDetectedException} into the waits of
+   * every task involved. Defaults to false.
+   */
+  raiseOnDeadlock?: boolean;
+}
+
+interface HoldRecord {
+  readonly task: DiagnosticTask;
+  readonly since: number;
+  readonly stack: string | undefined;
+}
+
+/**
+ * A wait registered by {@link Condition#wait}
+ */
+export interface WaitRecord {
+  readonly task: DiagnosticTask;
+  readonly since: number;
+  readonly stack: string | undefined;
+  readonly raise: (error: Error) => void;
+}
+
+interface ResourceRecord {
+  readonly resource: Diagnosable;
+  readonly holders: Map<number, HoldRecord>;
+  readonly waiters: Set<WaitRecord>;
+}
+
+const taskStorage = new AsyncLocalStorage<DiagnosticTask>();
+let nextTaskId = 1;
+
+/**
+ * Runs `fn` as a labelled task for diagnostics
+ *
+ * Every hold and wait made by `fn`, or by anything it starts, is attributed
+ * to the same task. This is what links a task's holds to its waits in the
+ * wait-for graph, so deadlocks can only be detected between labelled tasks.
+ *
+ * @param label - A label identifying the task in reports
+ * @param fn - The task to run
+ * @returns The result of `fn`
+ */
+export function diagnosticTask<T>(label: string, fn: () => T): T {
+  return taskStorage.run({ id: nextTaskId++, label }, fn);
+}
+
+function currentTask(): DiagnosticTask {
+  return taskStorage.getStore() ?? { id: nextTaskId++, label: undefined };
+}
+
+function kindOf(resource: Diagnosable): string {
+  return resource.constructor.name;
+}
+
+function describeTask(task: DiagnosticTask): string {
+  return task.label === undefined
+    ? `task #${task.id}`
+    : `task #${task.id} "${task.label}"`;
+}
+
+function describeResource(resource: {
+  kind: string;
+  name: string | undefined;
+}): string {
+  return resource.name === undefined
+    ? resource.kind
+    : `${resource.kind} "${resource.name}"`;
+}
+
+function describeDeadlock(deadlock: Deadlock): string {
+  const steps = deadlock.steps.map(
+    ({ task, waitingFor }) =>
+      `${describeTask(task)} waits for ${describeResource(waitingFor)}`
+  );
+  return `Deadlock detected: ${steps.join(", held by ")}, held by ${describeTask(
+    deadlock.steps[0].task
+  )}`;
+}
+
+/**
+ * Records the holders and waiters of every primitive while enabled
+ */
+export class DiagnosticsRegistry {
+  private readonly resources: Map<Diagnosable, ResourceRecord> = new Map();
+  private readonly captureStacks: boolean;
+  private readonly raiseOnDeadlock: boolean;
+
+  public constructor(options: EnableDiagnosticsOptions = {}) {
+    this.captureStacks = options.captureStacks ?? true;
+    this.raiseOnDeadlock = options.raiseOnDeadlock ?? false;
+  }
+
+  private captureStack(): string | undefined {
+    if (!this.captureStacks) return undefined;
+    // Drop the "Error" line and the frames inside of the registry.
+    return new Error().stack?.split("\n").slice(3).join("\n");
+  }
+
+  private recordFor(resource: Diagnosable): ResourceRecord {
+    let record = this.resources.get(resource);
+    if (record === undefined) {
+      record = { resource, holders: new Map(), waiters: new Set() };
+      this.resources.set(resource, record);
+    }
+    return record;
+  }
+
+  private forgetIfIdle(record: ResourceRecord): void {
+    if (record.holders.size > 0 || record.waiters.size > 0) return;
+    this.resources.delete(record.resource);
+  }
+
+  /**
+   * Records that the current task now holds `resource` through `handle`
+   */
+  public acquired(resource: Diagnosable, handle: number): void {
+    this.recordFor(resource).holders.set(handle, {
+      task: currentTask(),
+      since: Date.now(),
+      stack: this.captureStack(),
+    });
+    if (this.raiseOnDeadlock) this.raiseDeadlocks();
+  }
+
+  /**
+   * Records that `handle` no longer holds `resource`
+   */
+  public released(resource: Diagnosable, handle: number): void {
+    const record = this.resources.get(resource);
+    if (record === undefined) return;
+    record.holders.delete(handle);
+    this.forgetIfIdle(record);
+  }
+
+  /**
+   * Records that the current task has started waiting for `resource`
+   *
+   * @param raise - Ends the wait by raising the given error
+   */
+  public waitStarted(
+    resource: Diagnosable,
+    raise: (error: Error) => void
+  ): WaitRecord {
+    const wait: WaitRecord = {
+      task: currentTask(),
+      since: Date.now(),
+      stack: this.captureStack(),
+      raise,
+    };
+    this.recordFor(resource).waiters.add(wait);
+    if (this.raiseOnDeadlock) this.raiseDeadlocks();
+    return wait;
+  }
+
+  public waitEnded(resource: Diagnosable, wait: WaitRecord): void {
+    const record = this.resources.get(resource);
+    if (record === undefined) return;
+    record.waiters.delete(wait);
+    this.forgetIfIdle(record);
+  }
+
+  private snapshotOf(record: ResourceRecord): ResourceSnapshot {
+    return {
+      kind: kindOf(record.resource),
+      name: record.resource.name,
+      holders: Array.from(record.holders, ([handle, hold]) => ({
+        task: hold.task,
+        handle,
+        since: hold.since,
+        stack: hold.stack,
+      })),
+      waiters: Array.from(record.waiters, (wait) => ({
+        task: wait.task,
+        since: wait.since,
+        stack: wait.stack,
+      })),
+    };
+  }
+
+  /**
+   * Every primitive that currently has holders or waiters
+   */
+  public snapshot(): ResourceSnapshot[] {
+    return Array.from(this.resources.values(), (record) =>
+      this.snapshotOf(record)
+    );
+  }
+
+  /**
+   * Finds cycles in the wait-for graph
+   *
+   * A task waiting for a resource has an edge to every task holding it.
+   * Only primitives with holders, like {@link Mutex}, {@link Semaphore} and
+   * {@link RWMutex}, contribute edges. Channel and Condition waits are
+   * reported by {@link DiagnosticsRegistry#snapshot}, but never form cycles.
+   */
+  public findDeadlocks(): Deadlock[] {
+    const edges: Map<number, { to: DiagnosticTask; via: ResourceRecord }[]> =
+      new Map();
+    const tasks: Map<number, DiagnosticTask> = new Map();
+    for (const record of this.resources.values()) {
+      for (const wait of record.waiters) {
+        tasks.set(wait.task.id, wait.task);
+        for (const hold of record.holders.values()) {
+          const taskEdges = edges.get(wait.task.id) ?? [];
+          taskEdges.push({ to: hold.task, via: record });
+          edges.set(wait.task.id, taskEdges);
+        }
+      }
+    }
+
+    const deadlocks: Deadlock[] = [];
+    const seenCycles: Set<string> = new Set();
+    const finished: Set<number> = new Set();
+    const path: { task: DiagnosticTask; via: ResourceRecord }[] = [];
+    const onPath: Map<number, number> = new Map();
+
+    const visit = (task: DiagnosticTask) => {
+      for (const edge of edges.get(task.id) ?? []) {
+        path.push({ task, via: edge.via });
+        const cycleStart = onPath.get(edge.to.id);
+        if (cycleStart !== undefined) {
+          const cycle = path.slice(cycleStart);
+          const key = cycle
+            .map((step) => step.task.id)
+            .sort((a, b) => a - b)
+            .join(",");
+          if (!seenCycles.has(key)) {
+            seenCycles.add(key);
+            deadlocks.push({
+              steps: cycle.map((step) => ({
+                task: step.task,
+                waitingFor: this.snapshotOf(step.via),
+              })),
+            });
+          }
+        } else if (!finished.has(edge.to.id)) {
+          onPath.set(edge.to.id, path.length);
+          visit(edge.to);
+          onPath.delete(edge.to.id);
+        }
+        path.pop();
+      }
+      finished.add(task.id);
+    };
+
+    for (const task of tasks.values()) {
+      if (finished.has(task.id)) continue;
+      onPath.set(task.id, 0);
+      visit(task);
+      onPath.delete(task.id);
+    }
+    return deadlocks;
+  }
+
+  /**
+   * Raises a {@link DeadlockDetectedException} into the waits of every task
+   * involved in a deadlock
+   *
+   * @returns The deadlocks that were found
+   */
+  public raiseDeadlocks(): Deadlock[] {
+    const deadlocks = this.findDeadlocks();
+    for (const deadlock of deadlocks) {
+      for (const step of deadlock.steps) {
+        for (const record of this.resources.values()) {
+          for (const wait of record.waiters) {
+            if (wait.task.id !== step.task.id) continue;
+            wait.raise(new DeadlockDetectedException(deadlock));
+          }
+        }
+      }
+    }
+    return deadlocks;
+  }
+
+  /**
+   * Describes every primitive with holders or waiters, and any deadlocks
+   */
+  public report(): string {
+    const now = Date.now();
+    const lines: string[] = [];
+    const describeSite = (stack: string | undefined) => {
+      if (stack === undefined) return;
+      for (const line of stack.split("\n")) {
+        lines.push(`      ${line.trim()}`);
+      }
+    };
+
+    for (const resource of this.snapshot()) {
+      lines.push(describeResource(resource));
+      for (const holder of resource.holders) {
+        lines.push(
+          `  held by ${describeTask(holder.task)} for ${now - holder.since}ms`
+        );
+        describeSite(holder.stack);
+      }
+      for (const waiter of resource.waiters) {
+        lines.push(
+          `  waited on by ${describeTask(waiter.task)} for ${
+            now - waiter.since
+          }ms`
+        );
+        describeSite(waiter.stack);
+      }
+    }
+    for (const deadlock of this.findDeadlocks()) {
+      lines.push(describeDeadlock(deadlock));
+    }
+    return lines.join("\n");
+  }
+}
+
+let activeRegistry: DiagnosticsRegistry | undefined = undefined;
+
+/**
+ * Starts recording the holders and waiters of every primitive
+ *
+ * Diagnostics are off by default, and recording has a cost, so this
+ * is meant for debugging and tests rather than production use.
+ *
+ * @returns The registry that is now recording
+ */
+export function enableDiagnostics(
+  options?: EnableDiagnosticsOptions
+): DiagnosticsRegistry {
+  activeRegistry = new DiagnosticsRegistry(options);
+  return activeRegistry;
+}
+
+export function disableDiagnostics(): void {
+  activeRegistry = undefined;
+}
+
+/**
+ * The registry that is currently recording, if diagnostics are enabled
+ */
+export function activeDiagnostics(): DiagnosticsRegistry | undefined {
+  return activeRegistry;
+}
@@ -0,0 +1,67 @@
+// Runtimes that predate explicit resource management, or that run code in a
+// separate realm like Jest does, may lack Symbol.dispose and
+// Symbol.asyncDispose. Importing the library never patches the global
+// Symbol, so we fall back to registered symbols of our own, which the
+// opt-in "./polyfill" module installs for `using` and `await using`.
+const runtimeSymbols = Symbol as {
+  dispose?: typeof Symbol.dispose;
+  asyncDispose?: typeof Symbol.asyncDispose;
+};
+
+/**
+ * `Symbol.dispose`, or a stand-in if the runtime has none
+ */
+export const disposeSymbol: typeof Symbol.dispose =
+  runtimeSymbols.dispose ??
+  (Symbol.for("Symbol.dispose") as typeof Symbol.dispose);
+
+/**
+ * `Symbol.asyncDispose`, or a stand-in if the runtime has none
+ */
+export const asyncDisposeSymbol: typeof Symbol.asyncDispose =
+  runtimeSymbols.asyncDispose ??
+  (Symbol.for("Symbol.asyncDispose") as typeof Symbol.asyncDispose);
+
+/**
+ * A held lock or slot that is released when disposed
+ *
+ * Returned by methods like {@link Mutex#lock} and {@link Semaphore#slot}
+ * so that the lock or slot can be scoped with `using` or `await using`:
+ *
+ * ```ts
+ * await using lock = await mutex.lock(signal);
+ * ```
+ *
+ * On runtimes without `Symbol.dispose` and `Symbol.asyncDispose`, import
+ * the `polyfill` module once, before any `using` declarations run.
+ *
+ * Releasing is idempotent, so disposing a handle that has already been
+ * released does nothing. Each handle only ever releases the acquisition
+ * it was created for, and never a later acquisition of the same primitive.
+ */
+export class DisposableHandle implements Disposable, AsyncDisposable {
+  private released = false;
+
+  public constructor(
+    public readonly handle: number,
+    private readonly releaseHandle: (handle: number) => void
+  ) {}
+
+  public get isReleased(): boolean {
+    return this.released;
+  }
+
+  public release(): void {
+    if (this.released) return;
+    this.released = true;
+    this.releaseHandle(this.handle);
+  }
+
+  public [disposeSymbol](): void {
+    this.release();
+  }
+
+  public async [asyncDisposeSymbol](): Promise<void> {
+    this.release();
+  }
+}
@@ -0,0 +1,241 @@
+import { Diagnosable } from "./diagnostics";
+
+/**
+ * What an instrumented operation does to its primitive
+ *
+ * Locks and semaphores report `"acquire"`, except for the read and write
+ * locks of an {@link RWMutex}, which report `"read"` and `"write"` like
+ * channel reads and writes do.
+ */
+export type PrimitiveOperation = "acquire" | "read" | "write";
+
+export interface PrimitiveEvent {
+  readonly primitive: Diagnosable;
+  /** The class of the primitive, like `"Mutex"` */
+  readonly kind: string;
+  readonly name: string | undefined;
+}
+
+export interface OperationEvent extends PrimitiveEvent {
+  readonly operation: PrimitiveOperation;
+}
+
+export interface AcquireGrantedEvent extends OperationEvent {
+  readonly handle: number;
+  /** How long the acquisition waited, in milliseconds */
+  readonly waitMs: number;
+}
+
+export interface AcquireAbortedEvent extends OperationEvent {
+  /** How long the acquisition waited, in milliseconds */
+  readonly waitMs: number;
+  /** Whether the wait ended because of a timeout or deadline */
+  readonly timedOut: boolean;
+}
+
+export interface ReleasedEvent extends OperationEvent {
+  readonly handle: number;
+  /** How long the handle was held, in milliseconds */
+  readonly heldMs: number;
+}
+
+export interface RendezvousEvent extends OperationEvent {
+  readonly operation: "read" | "write";
+  /** How long the read or write waited for its counterpart, in milliseconds */
+  readonly waitMs: number;
+}
+
+/**
+ * Receives events from every primitive while added with {@link addObserver}
+ *
+ * Every method is optional. Methods are called synchronously from within
+ * the primitive's own operations, so they should return quickly and must
+ * not throw.
+ */
+export interface PrimitiveObserver {
+  /** A lock or semaphore acquisition started */
+  acquireRequested?(event: OperationEvent): void;
+  /** An acquisition succeeded, whether or not it had to wait */
+  acquireGranted?(event: AcquireGrantedEvent): void;
+  /** An acquisition gave up, because it was aborted or timed out */
+  acquireAborted?(event: AcquireAbortedEvent): void;
+  /** A handle granted while observed was released */
+  released?(event: ReleasedEvent): void;
+  /** A channel read or write completed */
+  rendezvous?(event: RendezvousEvent): void;
+  /** A channel was closed */
+  closed?(event: PrimitiveEvent): void;
+}
+
+function eventOf(primitive: Diagnosable): PrimitiveEvent {
+  return {
+    primitive,
+    kind: primitive.constructor.name,
+    name: primitive.name,
+  };
+}
+
+/**
+ * Tracks one acquisition from its request until it is granted or aborted
+ */
+export class AcquireAttempt {
+  private readonly requestedAt = performance.now();
+
+  public constructor(
+    private readonly instrumentation: Instrumentation,
+    private readonly event: OperationEvent
+  ) {}
+
+  public granted(handle: number): void {
+    this.instrumentation.granted(
+      this.event,
+      handle,
+      performance.now() - this.requestedAt
+    );
+  }
+
+  public aborted(timedOut: boolean): void {
+    const waitMs = performance.now() - this.requestedAt;
+    this.instrumentation.emit((observer) =>
+      observer.acquireAborted?.({ ...this.event, waitMs, timedOut })
+    );
+  }
+}
+
+/**
+ * Tracks one channel read or write until it completes
+ */
+export class ChannelTransfer {
+  private readonly startedAt = performance.now();
+
+  public constructor(
+    private readonly instrumentation: Instrumentation,
+    private readonly event: Omit<RendezvousEvent, "waitMs">
+  ) {}
+
+  public completed(): void {
+    const waitMs = performance.now() - this.startedAt;
+    this.instrumentation.emit((observer) =>
+      observer.rendezvous?.({ ...this.event, waitMs })
+    );
+  }
+}
+
+/**
+ * Forwards events from primitives to the observers
+ *
+ * Primitives reach this through {@link activeInstrumentation}, which is
+ * undefined while there are no observers, so that uninstrumented code
+ * only pays for the check.
+ */
+export class Instrumentation {
+  private readonly observers = new Set<PrimitiveObserver>();
+  // The operation and grant time of every handle granted while observed.
+  private readonly holds = new WeakMap<
+    Diagnosable,
+    Map<number, { operation: PrimitiveOperation; since: number }>
+  >();
+
+  public get isEmpty(): boolean {
+    return this.observers.size === 0;
+  }
+
+  public add(observer: PrimitiveObserver): void {
+    this.observers.add(observer);
+  }
+
+  public remove(observer: PrimitiveObserver): void {
+    this.observers.delete(observer);
+  }
+
+  public emit(notify: (observer: PrimitiveObserver) => void): void {
+    for (const observer of this.observers) notify(observer);
+  }
+
+  /**
+   * Reports that an acquisition started
+   *
+   * @returns The attempt, to report its outcome to
+   */
+  public acquireRequested(
+    primitive: Diagnosable,
+    operation: PrimitiveOperation = "acquire"
+  ): AcquireAttempt {
+    const event = { ...eventOf(primitive), operation };
+    this.emit((observer) => observer.acquireRequested?.(event));
+    return new AcquireAttempt(this, event);
+  }
+
+  public granted(event: OperationEvent, handle: number, waitMs: number): void {
+    let handles = this.holds.get(event.primitive);
+    if (handles === undefined) {
+      handles = new Map();
+      this.holds.set(event.primitive, handles);
+    }
+    handles.set(handle, {
+      operation: event.operation,
+      since: performance.now(),
+    });
+    this.emit((observer) =>
+      observer.acquireGranted?.({ ...event, handle, waitMs })
+    );
+  }
+
+  /**
+   * Reports that `handle` was released, if it was granted while observed
+   */
+  public released(primitive: Diagnosable, handle: number): void {
+    const hold = this.holds.get(primitive)?.get(handle);
+    if (hold === undefined) return;
+    this.holds.get(primitive)!.delete(handle);
+    const event = {
+      ...eventOf(primitive),
+      operation: hold.operation,
+      handle,
+      heldMs: performance.now() - hold.since,
+    };
+    this.emit((observer) => observer.released?.(event));
+  }
+
+  /**
+   * Reports that a channel read or write started
+   *
+   * @returns The transfer, to report its completion to
+   */
+  public transferStarted(
+    channel: Diagnosable,
+    operation: "read" | "write"
+  ): ChannelTransfer {
+    return new ChannelTransfer(this, { ...eventOf(channel), operation });
+  }
+
+  public closed(channel: Diagnosable): void {
+    const event = eventOf(channel);
+    this.emit((observer) => observer.closed?.(event));
+  }
+}
+
+const instrumentation = new Instrumentation();
+
+/**
+ * Starts sending events from every primitive to `observer`
+ *
+ * Events are only reported for acquisitions that started, and handles
+ * that were granted, while there was at least one observer. An observer
+ * added while others are already present can therefore see an acquisition
+ * granted, or a handle released, without having seen it start.
+ */
+export function addObserver(observer: PrimitiveObserver): void {
+  instrumentation.add(observer);
+}
+
+export function removeObserver(observer: PrimitiveObserver): void {
+  instrumentation.remove(observer);
+}
+
+/**
+ * The instrumentation to report events to, if any observers are added
+ */
+export function activeInstrumentation(): Instrumentation | undefined {
+  return instrumentation.isEmpty ? undefined : instrumentation;
+}
@@ -0,0 +1,75 @@
+import { Condition } from "./condition";
+import { Diagnosable, NamedOptions } from "./diagnostics";
+import { WaitOptions } from "./timeout";
+
+export interface CountDownLatchOptions extends NamedOptions {}
+
+/**
+ * Waits for a fixed number of events, like Java's `CountDownLatch`
+ *
+ * Unlike a {@link WaitGroup}, the count is set once when the latch is
+ * created and can only go down. Once it reaches zero, the latch stays
+ * open forever, and every call to {@link CountDownLatch#wait} returns
+ * immediately.
+ */
+export class CountDownLatch implements Diagnosable {
+  private remaining: number;
+  private readonly openCV: Condition;
+  public readonly name: string | undefined;
+
+  /**
+   * @param count - The number of calls to {@link CountDownLatch#countDown}
+   * needed to open the latch
+   * @throws RangeError if `count` is not a non-negative integer
+   */
+  public constructor(count: number, options: CountDownLatchOptions = {}) {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new RangeError(
+        "CountDownLatch count must be a non-negative integer"
+      );
+    }
+    this.remaining = count;
+    this.openCV = new Condition({}, this);
+    this.name = options.name;
+  }
+
+  /**
+   * The number of calls to {@link CountDownLatch#countDown} still needed
+   */
+  public get count(): number {
+    return this.remaining;
+  }
+
+  /**
+   * The number of outstanding calls to {@link CountDownLatch#wait}
+   */
+  public get waiting(): number {
+    return this.openCV.waiting;
+  }
+
+  /**
+   * Decrements the count, opening the latch if it reaches zero
+   *
+   * Counting down an open latch does nothing.
+   */
+  public countDown(): void {
+    if (this.remaining === 0) return;
+    this.remaining--;
+    if (this.remaining === 0) this.openCV.notifyAll();
+  }
+
+  /**
+   * Waits until the latch is open
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @returns Whether the latch opened. If false, the wait has been aborted.
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async wait(
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<boolean> {
+    if (this.remaining === 0) return true;
+    return await this.openCV.wait(signalOrOptions);
+  }
+}
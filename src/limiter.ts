@@ -0,0 +1,320 @@
+import { Clock, ClockOptions, systemClock } from "./clock";
+import { NamedOptions } from "./diagnostics";
+import { PolicyOptions } from "./policy";
+import { Semaphore } from "./semaphore";
+import { WaitOptions, orTimedOut, waitOptionsOf } from "./timeout";
+
+/**
+ * An observation of one operation run under an {@link AdaptiveLimiter}
+ */
+export interface LimiterSample {
+  /** How long the operation took, in milliseconds */
+  readonly latencyMs: number;
+  /** The number of operations in flight when it finished, including itself */
+  readonly inFlight: number;
+  /** Whether the operation failed or was rejected by an overloaded dependency */
+  readonly dropped: boolean;
+}
+
+/**
+ * Computes a new concurrency limit from each {@link LimiterSample}
+ *
+ * Implementations may keep state across samples. The returned limit
+ * may be fractional; the {@link AdaptiveLimiter} clamps and rounds it.
+ */
+export interface LimitAlgorithm {
+  update(sample: LimiterSample, limit: number): number;
+}
+
+export interface AimdLimitOptions {
+  /** The limit is multiplied by this after a drop, defaulting to 0.9 */
+  backoffRatio?: number;
+  /** The limit grows by this after a success, defaulting to 1 */
+  increase?: number;
+  /** Successes slower than this count as drops, defaulting to never */
+  latencyThresholdMs?: number;
+}
+
+/**
+ * Additive-increase, multiplicative-decrease
+ *
+ * Grows the limit by a constant after every success while at least half
+ * of it is in use, and shrinks it by a ratio after every drop or slow
+ * operation. Reacts quickly to errors, but needs a latency threshold
+ * to react to a dependency that slows down without failing.
+ */
+export class AimdLimit implements LimitAlgorithm {
+  private readonly backoffRatio: number;
+  private readonly increase: number;
+  private readonly latencyThresholdMs: number;
+
+  public constructor(options: AimdLimitOptions = {}) {
+    this.backoffRatio = options.backoffRatio ?? 0.9;
+    this.increase = options.increase ?? 1;
+    this.latencyThresholdMs = options.latencyThresholdMs ?? Infinity;
+  }
+
+  public update(sample: LimiterSample, limit: number): number {
+    if (sample.dropped || sample.latencyMs > this.latencyThresholdMs) {
+      return limit * this.backoffRatio;
+    }
+    // Growing the limit when it isn't being used would let it run away.
+    if (sample.inFlight * 2 >= limit) {
+      return limit + this.increase;
+    }
+    return limit;
+  }
+}
+
+export interface GradientLimitOptions {
+  /** How much of each new estimate is blended into the limit, defaulting to 0.2 */
+  smoothing?: number;
+  /** How many samples the long-term latency average covers, defaulting to 100 */
+  window?: number;
+  /** How much slower than the long-term average is tolerated, defaulting to 1.5 */
+  tolerance?: number;
+  /** Extra headroom allowed above the estimate, defaulting to the square root of the limit */
+  queueSize?: (limit: number) => number;
+}
+
+/**
+ * Latency gradient, in the style of Netflix's `Gradient2Limit`
+ *
+ * Compares each sample's latency against a long-term average. While
+ * latency is stable the limit grows by the queue size; once latency
+ * exceeds the average by more than the tolerance, the limit shrinks in
+ * proportion. Drops shrink the limit by half the smoothing. Samples taken while
+ * less than half of the limit is in use leave it unchanged.
+ */
+export class GradientLimit implements LimitAlgorithm {
+  private readonly smoothing: number;
+  private readonly tolerance: number;
+  private readonly decay: number;
+  private readonly queueSize: (limit: number) => number;
+  private longLatencyMs: number | undefined = undefined;
+
+  public constructor(options: GradientLimitOptions = {}) {
+    this.smoothing = options.smoothing ?? 0.2;
+    this.tolerance = options.tolerance ?? 1.5;
+    this.decay = 2 / ((options.window ?? 100) + 1);
+    this.queueSize = options.queueSize ?? ((limit) => Math.sqrt(limit));
+  }
+
+  public update(sample: LimiterSample, limit: number): number {
+    if (sample.dropped) {
+      return limit * (1 - this.smoothing / 2);
+    }
+
+    const shortLatencyMs = Math.max(sample.latencyMs, Number.EPSILON);
+    const longLatencyMs =
+      this.longLatencyMs === undefined
+        ? shortLatencyMs
+        : this.longLatencyMs * (1 - this.decay) + shortLatencyMs * this.decay;
+    this.longLatencyMs = longLatencyMs;
+
+    if (sample.inFlight * 2 < limit) return limit;
+
+    const gradient = Math.max(
+      0.5,
+      Math.min(1, (this.tolerance * longLatencyMs) / shortLatencyMs)
+    );
+    const estimate = limit * gradient + this.queueSize(limit);
+    return limit * (1 - this.smoothing) + estimate * this.smoothing;
+  }
+}
+
+export interface AdaptiveLimiterOptions
+  extends PolicyOptions,
+    ClockOptions,
+    NamedOptions {
+  /** The starting limit, defaulting to 10 */
+  initialLimit?: number;
+  /** The smallest limit, defaulting to 1 */
+  minLimit?: number;
+  /** The largest limit, defaulting to 1000 */
+  maxLimit?: number;
+  /** How the limit responds to samples, defaulting to {@link AimdLimit} */
+  algorithm?: LimitAlgorithm;
+}
+
+type PermitOutcome = "success" | "dropped" | "ignore";
+
+/**
+ * A slot held under an {@link AdaptiveLimiter}
+ *
+ * Exactly one of {@link LimiterPermit#success}, {@link LimiterPermit#dropped}
+ * or {@link LimiterPermit#ignore} should be called once the operation
+ * finishes. Each releases the slot, and only the first call has any effect.
+ */
+export class LimiterPermit {
+  private settled = false;
+
+  public constructor(
+    private readonly complete: (outcome: PermitOutcome) => void
+  ) {}
+
+  /** Releases the slot, recording a successful operation */
+  public success(): void {
+    this.settle("success");
+  }
+
+  /** Releases the slot, recording a failure caused by overload */
+  public dropped(): void {
+    this.settle("dropped");
+  }
+
+  /** Releases the slot without recording a sample */
+  public ignore(): void {
+    this.settle("ignore");
+  }
+
+  private settle(outcome: PermitOutcome): void {
+    if (this.settled) return;
+    this.settled = true;
+    this.complete(outcome);
+  }
+}
+
+/**
+ * Limits concurrency to a level discovered from observed latency and errors
+ *
+ * Runs operations under a {@link Semaphore} whose capacity is adjusted
+ * after every operation by a {@link LimitAlgorithm}, so that callers back
+ * off when a downstream dependency degrades and ramp up again when it
+ * recovers, without manual tuning.
+ */
+export class AdaptiveLimiter {
+  private readonly semaphore: Semaphore;
+  private readonly algorithm: LimitAlgorithm;
+  private readonly clock: Clock;
+  private readonly minLimit: number;
+  private readonly maxLimit: number;
+  private estimatedLimit: number;
+  private running = 0;
+
+  /**
+   * @param options - The `policy` decides which waiter runs next when a slot
+   * frees up, and defaults to `"fifo"`.
+   * @throws RangeError if the limits are not positive or out of order
+   */
+  public constructor(options: AdaptiveLimiterOptions = {}) {
+    this.minLimit = options.minLimit ?? 1;
+    this.maxLimit = options.maxLimit ?? 1000;
+    const initialLimit = options.initialLimit ?? 10;
+    if (
+      this.minLimit < 1 ||
+      this.maxLimit < this.minLimit ||
+      initialLimit < this.minLimit ||
+      initialLimit > this.maxLimit
+    ) {
+      throw new RangeError(
+        "AdaptiveLimiter limits must satisfy 1 <= minLimit <= initialLimit <= maxLimit"
+      );
+    }
+    this.estimatedLimit = initialLimit;
+    this.algorithm = options.algorithm ?? new AimdLimit();
+    this.clock = options.clock ?? systemClock;
+    this.semaphore = new Semaphore(Math.floor(initialLimit), {
+      policy: options.policy ?? "fifo",
+      name: options.name,
+    });
+  }
+
+  /**
+   * The number of operations currently allowed to run at once
+   */
+  public get limit(): number {
+    return this.semaphore.capacity;
+  }
+
+  /**
+   * The number of operations currently running
+   */
+  public get inFlight(): number {
+    return this.running;
+  }
+
+  public get waiting(): number {
+    return this.semaphore.waiting;
+  }
+
+  /**
+   * Waits for a slot under the current limit
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline, measured by this limiter's clock by default
+   * @param priority - Used by the `"priority"` policy, where higher priorities acquire first
+   * @returns A permit to settle once the operation finishes, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async acquire(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<LimiterPermit | undefined> {
+    const handle = await this.semaphore.acquire(
+      { clock: this.clock, ...waitOptionsOf(signalOrOptions) },
+      priority
+    );
+    if (handle === undefined) return undefined;
+
+    this.running++;
+    const startedAt = this.clock.now();
+    return new LimiterPermit((outcome) => {
+      const inFlight = this.running--;
+      this.semaphore.release(handle);
+      if (outcome === "ignore") return;
+      this.onSample({
+        latencyMs: this.clock.now() - startedAt,
+        inFlight,
+        dropped: outcome === "dropped",
+      });
+    });
+  }
+
+  /**
+   * Runs `fn` under the limit, recording its latency and whether it threw
+   *
+   * @param isDropped - Decides whether an error thrown by `fn` indicates
+   * overload. Errors are always rethrown; those that are not drops leave the
+   * limit unchanged. By default every error counts as a drop.
+   */
+  public async withPermit<T>(
+    fn: () => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number,
+    isDropped: (error: unknown) => boolean = () => true
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
+    const permit = await orTimedOut(this.acquire(signalOrOptions, priority));
+    if (permit === "timedOut") return { status: "timedOut" };
+    if (permit === undefined) return { status: "aborted" };
+
+    try {
+      const result = await fn();
+      permit.success();
+      return { status: "acquired", result };
+    } catch (e) {
+      if (isDropped(e)) {
+        permit.dropped();
+      } else {
+        permit.ignore();
+      }
+      throw e;
+    }
+  }
+
+  private onSample(sample: LimiterSample): void {
+    const updated = this.algorithm.update(sample, this.estimatedLimit);
+    this.estimatedLimit = Math.max(
+      this.minLimit,
+      Math.min(this.maxLimit, updated)
+    );
+    const capacity = Math.floor(this.estimatedLimit);
+    if (capacity !== this.semaphore.capacity) {
+      this.semaphore.setCapacity(capacity);
+    }
+  }
+}
@@ -0,0 +1,334 @@
+import {
+  AcquireAbortedEvent,
+  AcquireGrantedEvent,
+  OperationEvent,
+  PrimitiveEvent,
+  PrimitiveObserver,
+  PrimitiveOperation,
+  ReleasedEvent,
+  RendezvousEvent,
+} from "./instrumentation";
+
+export interface MetricsAggregatorOptions {
+  /**
+   * The upper bounds of the histogram buckets, in milliseconds, defaulting
+   * to bounds from 1 to 10000
+   */
+  bucketsMs?: readonly number[];
+  /**
+   * Prepended to the name of every metric by
+   * {@link MetricsAggregator#toPrometheus}, defaulting to `"concurrency"`
+   */
+  prefix?: string;
+}
+
+export interface HistogramSnapshot {
+  /**
+   * The number of durations at most `le` milliseconds long, for each
+   * bucket, ending with a bucket of `Infinity` that counts every duration
+   */
+  readonly buckets: readonly { le: number; count: number }[];
+  /** The sum of every duration, in milliseconds */
+  readonly sum: number;
+  readonly count: number;
+}
+
+/**
+ * The metrics of one operation on the primitives of one kind and name
+ */
+export interface OperationMetrics {
+  readonly kind: string;
+  readonly name: string | undefined;
+  readonly operation: PrimitiveOperation;
+  /** How long acquisitions, reads and writes waited before completing */
+  readonly wait: HistogramSnapshot;
+  /** How long granted handles were held before being released */
+  readonly hold: HistogramSnapshot;
+  /** The number of acquisitions waiting right now */
+  readonly waiting: number;
+  /** The number of handles held right now */
+  readonly held: number;
+  /** The number of acquisitions that gave up, including those timed out */
+  readonly aborted: number;
+  /** The number of acquisitions that gave up because they timed out */
+  readonly timedOut: number;
+}
+
+export interface ClosedMetrics {
+  readonly kind: string;
+  readonly name: string | undefined;
+  /** The number of times a channel of this kind and name was closed */
+  readonly closed: number;
+}
+
+export interface MetricsSnapshot {
+  readonly operations: OperationMetrics[];
+  readonly closed: ClosedMetrics[];
+}
+
+const defaultBucketsMs = [
+  1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+class Histogram {
+  // The number of durations in each bucket, and then in none of them.
+  private readonly counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  public constructor(private readonly boundsMs: readonly number[]) {
+    this.counts = new Array<number>(boundsMs.length + 1).fill(0);
+  }
+
+  public observe(durationMs: number): void {
+    let index = this.boundsMs.findIndex((bound) => durationMs <= bound);
+    if (index < 0) index = this.boundsMs.length;
+    this.counts[index]++;
+    this.sum += durationMs;
+    this.count++;
+  }
+
+  public snapshot(): HistogramSnapshot {
+    let cumulative = 0;
+    const buckets = this.counts.map((count, index) => {
+      cumulative += count;
+      return { le: this.boundsMs[index] ?? Infinity, count: cumulative };
+    });
+    return { buckets, sum: this.sum, count: this.count };
+  }
+}
+
+interface OperationSeries {
+  readonly kind: string;
+  readonly name: string | undefined;
+  readonly operation: PrimitiveOperation;
+  readonly wait: Histogram;
+  readonly hold: Histogram;
+  waiting: number;
+  held: number;
+  aborted: number;
+  timedOut: number;
+}
+
+function formatLabels(labels: Record<string, string | undefined>): string {
+  const pairs = Object.entries(labels)
+    .filter((pair): pair is [string, string] => pair[1] !== undefined)
+    .map(([label, value]) => {
+      const escaped = value
+        .replace(/\\/g, "\\\\")
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, "\\n");
+      return `${label}="${escaped}"`;
+    });
+  return `{${pairs.join(",")}}`;
+}
+
+function formatBound(le: number): string {
+  return le === Infinity ? "+Inf" : String(le);
+}
+
+/**
+ * Aggregates instrumentation events into histograms, gauges and counters
+ *
+ * ```ts
+ * const metrics = new MetricsAggregator();
+ * addObserver(metrics);
+ * // Serve this from the endpoint scraped by Prometheus
+ * const body = metrics.toPrometheus();
+ * ```
+ *
+ * Metrics are kept for each kind of primitive, name and operation, so
+ * primitives that share a name share their metrics, and unnamed
+ * primitives of the same kind are counted together.
+ */
+export class MetricsAggregator implements PrimitiveObserver {
+  private readonly bucketsMs: readonly number[];
+  private readonly prefix: string;
+  private readonly operations = new Map<string, OperationSeries>();
+  private readonly closes = new Map<string, ClosedMetrics>();
+
+  /**
+   * @throws RangeError if `bucketsMs` is not in increasing order
+   */
+  public constructor(options: MetricsAggregatorOptions = {}) {
+    this.bucketsMs = [...(options.bucketsMs ?? defaultBucketsMs)];
+    this.prefix = options.prefix ?? "concurrency";
+    for (let i = 1; i < this.bucketsMs.length; i++) {
+      if (!(this.bucketsMs[i] > this.bucketsMs[i - 1])) {
+        throw new RangeError(
+          "MetricsAggregator bucketsMs must be in increasing order"
+        );
+      }
+    }
+  }
+
+  private seriesFor(event: OperationEvent): OperationSeries {
+    const { kind, name, operation } = event;
+    const key = JSON.stringify([kind, name, operation]);
+    let series = this.operations.get(key);
+    if (series === undefined) {
+      series = {
+        kind,
+        name,
+        operation,
+        wait: new Histogram(this.bucketsMs),
+        hold: new Histogram(this.bucketsMs),
+        waiting: 0,
+        held: 0,
+        aborted: 0,
+        timedOut: 0,
+      };
+      this.operations.set(key, series);
+    }
+    return series;
+  }
+
+  // The gauges never go below zero, since this may have been added while
+  // an acquisition was waiting, or a handle was held, and missed its start.
+
+  public acquireRequested(event: OperationEvent): void {
+    this.seriesFor(event).waiting++;
+  }
+
+  public acquireGranted(event: AcquireGrantedEvent): void {
+    const series = this.seriesFor(event);
+    series.waiting = Math.max(0, series.waiting - 1);
+    series.held++;
+    series.wait.observe(event.waitMs);
+  }
+
+  public acquireAborted(event: AcquireAbortedEvent): void {
+    const series = this.seriesFor(event);
+    series.waiting = Math.max(0, series.waiting - 1);
+    series.aborted++;
+    if (event.timedOut) series.timedOut++;
+  }
+
+  public released(event: ReleasedEvent): void {
+    const series = this.seriesFor(event);
+    series.held = Math.max(0, series.held - 1);
+    series.hold.observe(event.heldMs);
+  }
+
+  public rendezvous(event: RendezvousEvent): void {
+    this.seriesFor(event).wait.observe(event.waitMs);
+  }
+
+  public closed(event: PrimitiveEvent): void {
+    const { kind, name } = event;
+    const key = JSON.stringify([kind, name]);
+    const closed = this.closes.get(key)?.closed ?? 0;
+    this.closes.set(key, { kind, name, closed: closed + 1 });
+  }
+
+  /**
+   * Copies the current metrics
+   */
+  public snapshot(): MetricsSnapshot {
+    const operations = [...this.operations.values()].map((series) => ({
+      kind: series.kind,
+      name: series.name,
+      operation: series.operation,
+      wait: series.wait.snapshot(),
+      hold: series.hold.snapshot(),
+      waiting: series.waiting,
+      held: series.held,
+      aborted: series.aborted,
+      timedOut: series.timedOut,
+    }));
+    return { operations, closed: [...this.closes.values()] };
+  }
+
+  /**
+   * Formats the current metrics in the Prometheus text exposition format
+   *
+   * Every metric is labelled with `kind`, `name` (for named primitives)
+   * and `operation`, except for the count of closes, which has no
+   * `operation`. Durations are in milliseconds.
+   */
+  public toPrometheus(): string {
+    const { operations, closed } = this.snapshot();
+    const lines: string[] = [];
+    const describe = (metric: string, type: string, help: string) => {
+      lines.push(`# HELP ${this.prefix}_${metric} ${help}`);
+      lines.push(`# TYPE ${this.prefix}_${metric} ${type}`);
+    };
+    const histogram = (
+      metric: string,
+      help: string,
+      select: (metrics: OperationMetrics) => HistogramSnapshot
+    ) => {
+      describe(metric, "histogram", help);
+      for (const metrics of operations) {
+        const { kind, name, operation } = metrics;
+        const { buckets, sum, count } = select(metrics);
+        for (const { le, count: bucketCount } of buckets) {
+          const labels = formatLabels({
+            kind,
+            name,
+            operation,
+            le: formatBound(le),
+          });
+          lines.push(`${this.prefix}_${metric}_bucket${labels} ${bucketCount}`);
+        }
+        const labels = formatLabels({ kind, name, operation });
+        lines.push(`${this.prefix}_${metric}_sum${labels} ${sum}`);
+        lines.push(`${this.prefix}_${metric}_count${labels} ${count}`);
+      }
+    };
+    const single = (
+      metric: string,
+      type: string,
+      help: string,
+      select: (metrics: OperationMetrics) => number
+    ) => {
+      describe(metric, type, help);
+      for (const metrics of operations) {
+        const { kind, name, operation } = metrics;
+        const labels = formatLabels({ kind, name, operation });
+        lines.push(`${this.prefix}_${metric}${labels} ${select(metrics)}`);
+      }
+    };
+
+    histogram(
+      "wait_milliseconds",
+      "How long operations waited before completing",
+      (metrics) => metrics.wait
+    );
+    histogram(
+      "hold_milliseconds",
+      "How long handles were held before being released",
+      (metrics) => metrics.hold
+    );
+    single(
+      "waiting",
+      "gauge",
+      "The number of acquisitions waiting",
+      (metrics) => metrics.waiting
+    );
+    single(
+      "held",
+      "gauge",
+      "The number of handles held",
+      (metrics) => metrics.held
+    );
+    single(
+      "aborted_total",
+      "counter",
+      "The number of acquisitions that were aborted or timed out",
+      (metrics) => metrics.aborted
+    );
+    single(
+      "timed_out_total",
+      "counter",
+      "The number of acquisitions that timed out",
+      (metrics) => metrics.timedOut
+    );
+    describe("closed_total", "counter", "The number of channels closed");
+    for (const { kind, name, closed: count } of closed) {
+      const labels = formatLabels({ kind, name });
+      lines.push(`${this.prefix}_closed_total${labels} ${count}`);
+    }
+    return lines.join("\n") + "\n";
+  }
+}
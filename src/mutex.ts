@@ -1,38 +1,117 @@
 import { Condition } from "./condition";
+import { Diagnosable, NamedOptions, activeDiagnostics } from "./diagnostics";
+import { DisposableHandle } from "./disposable";
+import { activeInstrumentation } from "./instrumentation";
+import { PolicyOptions } from "./policy";
+import { WaitOptions, WaitScope, orTimedOut } from "./timeout";
+
+export interface MutexOptions extends PolicyOptions, NamedOptions {}
 
 /**
  * A simple non-reentrant Mutex object to demonstrate parallelism internals
+ *
+ * Releasing the lock hands it directly to the waiter chosen by the
+ * wake policy, so new callers cannot barge ahead of existing waiters.
  */
-export class Mutex {
+export class Mutex implements Diagnosable {
   private locked = false;
   private lockHandle = 0;
-  private lockCV = new Condition();
+  private lockCV: Condition;
+  public readonly name: string | undefined;
+
+  /**
+   * @param options - The `policy` decides which waiter acquires the lock next,
+   * and defaults to `"random"`.
+   */
+  public constructor(options: MutexOptions = {}) {
+    this.lockCV = new Condition(options, this);
+    this.name = options.name;
+  }
 
-  public async acquire(signal?: AbortSignal): Promise<number | undefined> {
-    while (this.locked) {
-      const didWait = await this.lockCV.wait(signal);
-      if (!didWait) return undefined;
+  /**
+   * Acquires the lock
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @param priority - Used by the `"priority"` policy, where higher priorities acquire first
+   * @returns A handle to pass to {@link Mutex#release}, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async acquire(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<number | undefined> {
+    const attempt = activeInstrumentation()?.acquireRequested(this);
+    if (!this.locked) {
+      this.locked = true;
+      activeDiagnostics()?.acquired(this, ++this.lockHandle);
+      attempt?.granted(this.lockHandle);
+      return this.lockHandle;
     }
 
-    this.locked = true;
-    return ++this.lockHandle;
+    const scope = new WaitScope(signalOrOptions);
+    try {
+      const didWait = await this.lockCV.wait(scope.signal, priority);
+      if (!didWait) {
+        attempt?.aborted(scope.hasTimedOut);
+        scope.throwIfTimedOut();
+        return undefined;
+      }
+    } finally {
+      scope.dispose();
+    }
+    // The lock was handed to us by release, which already advanced the handle.
+    activeDiagnostics()?.acquired(this, this.lockHandle);
+    attempt?.granted(this.lockHandle);
+    return this.lockHandle;
   }
 
   public release(handle: number | undefined): void {
     if (handle === undefined) return;
     if (!this.locked) return;
     if (this.lockHandle !== handle) return;
-    this.locked = false;
-    this.lockCV.notifyOne();
+    activeDiagnostics()?.released(this, handle);
+    activeInstrumentation()?.released(this, handle);
+    if (this.lockCV.waiting > 0) {
+      // Advancing the handle invalidates the releasing handle immediately.
+      ++this.lockHandle;
+      this.lockCV.notifyOne();
+    } else {
+      this.locked = false;
+    }
+  }
+
+  /**
+   * Acquires the lock as a {@link DisposableHandle}, for use with `await using`
+   *
+   * @returns A handle that releases the lock when disposed, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async lock(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<DisposableHandle | undefined> {
+    const handle = await this.acquire(signalOrOptions, priority);
+    if (handle === undefined) return undefined;
+    return new DisposableHandle(handle, (h) => this.release(h));
   }
 
   public async withLock<T>(
     fn: () => Promise<T>,
-    signal?: AbortSignal
-  ): Promise<{ status: "acquired"; result: T } | { status: "aborted" }> {
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
     let lockHandle: number | undefined = undefined;
     try {
-      lockHandle = await this.acquire(signal);
+      const acquired = await orTimedOut(
+        this.acquire(signalOrOptions, priority)
+      );
+      if (acquired === "timedOut") return { status: "timedOut" };
+      lockHandle = acquired;
       if (lockHandle === undefined) return { status: "aborted" };
 
       const result = await fn();
@@ -0,0 +1,73 @@
+import { SingleFlight } from "./singleflight";
+import { WaitOptions } from "./timeout";
+
+/**
+ * Runs a function successfully at most once, like Go's `sync.Once`
+ *
+ * The first call to {@link Once#do} runs its function, and concurrent
+ * calls share that run instead of starting their own. Once a run
+ * succeeds, every later call returns its result without running anything.
+ * If a run fails, every caller sharing it receives the error, and the next
+ * call tries again.
+ *
+ * As with {@link SingleFlight}, a caller can stop waiting by aborting its
+ * signal, and the run is only cancelled once every caller has gone away.
+ */
+export class Once<T = void> {
+  private readonly flight = new SingleFlight<undefined, T>();
+  private result: { value: T } | undefined = undefined;
+
+  /**
+   * Whether a run has succeeded
+   */
+  public get isDone(): boolean {
+    return this.result !== undefined;
+  }
+
+  /**
+   * Runs `fn` unless a run has already succeeded or is in progress
+   *
+   * @param fn - The function to run. Its signal is aborted if every caller
+   * waiting on the run aborts.
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline, that stops this caller waiting
+   * @returns The result of the successful run
+   * @throws CallCancelledException if the optional `signal` was aborted first
+   * @throws TimeoutException if the timeout or deadline passed first
+   * @throws The error thrown by the run, if it failed
+   */
+  public async do(
+    fn: (signal: AbortSignal) => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<T> {
+    if (this.result !== undefined) return this.result.value;
+    return await this.flight.do(
+      undefined,
+      async (signal) => {
+        const value = await fn(signal);
+        this.result = { value };
+        return value;
+      },
+      signalOrOptions
+    );
+  }
+}
+
+/**
+ * Wraps an asynchronous initializer so that it runs successfully at most once
+ *
+ * ```ts
+ * const connection = lazyAsync((signal) => connect(url, signal));
+ * const db = await connection();
+ * ```
+ *
+ * @param fn - The initializer, which is retried by the next call if it fails
+ * @returns A function returning the initializer's result, with the same
+ * cancellation behavior as {@link Once#do}
+ */
+export function lazyAsync<T>(
+  fn: (signal: AbortSignal) => Promise<T>
+): (signalOrOptions?: AbortSignal | WaitOptions) => Promise<T> {
+  const once = new Once<T>();
+  return (signalOrOptions) => once.do(fn, signalOrOptions);
+}
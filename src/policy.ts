@@ -0,0 +1,76 @@
+/**
+ * The order in which blocked waiters are woken
+ *
+ * - `"fifo"` wakes the longest-waiting waiter first, which is fair
+ * - `"lifo"` wakes the most recent waiter first
+ * - `"random"` wakes a waiter chosen at random
+ * - `"priority"` wakes the waiter with the highest priority first, and
+ *   the longest-waiting waiter among those of equal priority
+ */
+export type WakePolicy = "fifo" | "lifo" | "random" | "priority";
+
+export interface PolicyOptions {
+  /**
+   * The order in which blocked waiters are woken
+   */
+  policy?: WakePolicy;
+}
+
+interface Prioritized {
+  readonly priority: number;
+}
+
+/**
+ * Chooses the next waiter to wake
+ *
+ * @param policy - The wake policy to apply
+ * @param waiters - Waiters in the order that they started waiting
+ * @returns The index of the next waiter to wake, or -1 if there are none
+ */
+export function nextWaiterIndex(
+  policy: WakePolicy,
+  waiters: readonly Prioritized[]
+): number {
+  if (waiters.length < 1) return -1;
+  switch (policy) {
+    case "fifo":
+      return 0;
+    case "lifo":
+      return waiters.length - 1;
+    case "random":
+      // Math.random() will return [0 , 1), so we only have to floor its
+      // multiplication by the length to get a valid 0-based index.
+      return Math.floor(Math.random() * waiters.length);
+    case "priority": {
+      let bestIndex = 0;
+      for (let i = 1; i < waiters.length; i++) {
+        // Strictly greater, so that earlier waiters win ties.
+        if (waiters[i].priority > waiters[bestIndex].priority) bestIndex = i;
+      }
+      return bestIndex;
+    }
+  }
+}
+
+/**
+ * Orders all waiters for waking at once
+ *
+ * @param policy - The wake policy to apply
+ * @param waiters - Waiters in the order that they started waiting
+ * @returns A new array of the waiters in the order they should be woken
+ */
+export function wakeOrder<W extends Prioritized>(
+  policy: WakePolicy,
+  waiters: readonly W[]
+): W[] {
+  switch (policy) {
+    case "fifo":
+    case "random":
+      return waiters.slice();
+    case "lifo":
+      return waiters.slice().reverse();
+    case "priority":
+      // Array.prototype.sort is stable, so earlier waiters win ties.
+      return waiters.slice().sort((a, b) => b.priority - a.priority);
+  }
+}
@@ -0,0 +1,8 @@
+import { asyncDisposeSymbol, disposeSymbol } from "./disposable";
+
+// The TypeScript helpers for `using` and `await using` look up these symbols
+// on the global Symbol, so runtimes without them need them filled in. This
+// module is only imported by applications that opt in to doing so.
+const runtimeSymbols = Symbol as { dispose?: symbol; asyncDispose?: symbol };
+runtimeSymbols.dispose ??= disposeSymbol;
+runtimeSymbols.asyncDispose ??= asyncDisposeSymbol;
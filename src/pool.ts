@@ -0,0 +1,332 @@
+import { Condition } from "./condition";
+import { Diagnosable, NamedOptions } from "./diagnostics";
+import { Semaphore } from "./semaphore";
+import { WaitOptions } from "./timeout";
+import { WaitGroup } from "./waitgroup";
+
+/**
+ * Thrown when submitting to a {@link WorkerPool} that is draining or shut
+ * down, and to jobs that were still queued when it was shut down
+ */
+export class WorkerPoolClosedException extends Error {}
+
+/**
+ * Thrown when submitting to a {@link WorkerPool} whose queue is full, and
+ * to jobs dropped from the queue by the `"dropOldest"` policy
+ */
+export class WorkerPoolFullException extends Error {}
+
+/**
+ * Thrown when a job's own `signal` is aborted while it is queued
+ */
+export class JobCancelledException extends Error {}
+
+/**
+ * What a {@link WorkerPool} does when a job is submitted to a full queue
+ *
+ * - `"reject"` rejects the new job with a {@link WorkerPoolFullException}
+ * - `"block"` makes {@link WorkerPool#submit} wait for room in the queue
+ * - `"dropOldest"` rejects the longest-queued job with a
+ *   {@link WorkerPoolFullException} to make room
+ */
+export type QueueFullPolicy = "reject" | "block" | "dropOldest";
+
+export interface WorkerPoolOptions extends NamedOptions {
+  /**
+   * The number of jobs that run at once, defaulting to 1
+   */
+  workers?: number;
+  /**
+   * The number of jobs that can wait for a worker, defaulting to no limit
+   */
+  queueSize?: number;
+  /**
+   * Defaults to `"reject"`
+   */
+  queueFull?: QueueFullPolicy;
+}
+
+export interface SubmitOptions {
+  /**
+   * Removes the job from the queue when aborted, or aborts the job's own
+   * signal if it has already started
+   */
+  signal?: AbortSignal;
+  /**
+   * Queued jobs with higher priorities start first, defaulting to 0
+   */
+  priority?: number;
+}
+
+/**
+ * A job run by a {@link WorkerPool}
+ *
+ * @param signal - Aborted when the job is cancelled or the pool is shut
+ * down, which the job should respect by finishing promptly
+ */
+export type Job<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface WorkerPoolStats {
+  /** The number of jobs waiting for a worker */
+  readonly queued: number;
+  /** The number of jobs running */
+  readonly active: number;
+  /** The number of jobs that may run at once */
+  readonly workers: number;
+  /** The number of jobs that returned */
+  readonly completed: number;
+  /** The number of jobs that threw */
+  readonly failed: number;
+  /** The number of jobs turned away or dropped because the queue was full */
+  readonly rejected: number;
+}
+
+/**
+ * Runs submitted jobs on a fixed number of workers, queueing the rest
+ *
+ * ```ts
+ * const pool = new WorkerPool({ workers: 4, queueSize: 100 });
+ * const page = await pool.submit((signal) => fetchPage(url, signal));
+ * // ...
+ * await pool.drain();
+ * ```
+ *
+ * Queued jobs start in order of priority, and then in the order they were
+ * submitted. {@link WorkerPool#drain} stops accepting jobs and waits for
+ * the queued and running ones to finish, while {@link WorkerPool#shutdown}
+ * rejects the queued jobs and aborts the running ones.
+ */
+export class WorkerPool implements Diagnosable {
+  // Each running job holds one of the semaphore's slots, and queued jobs
+  // wait to acquire one.
+  private readonly semaphore: Semaphore;
+  // The controllers of the signals given to queued and running jobs.
+  private readonly queued = new Set<AbortController>();
+  private readonly running = new Set<AbortController>();
+  private readonly outstanding: WaitGroup;
+  private readonly roomCV: Condition;
+
+  private readonly queueSize: number;
+  private readonly policy: QueueFullPolicy;
+  private state: "running" | "draining" | "stopped" = "running";
+  private completedJobs = 0;
+  private failedJobs = 0;
+  private rejectedJobs = 0;
+  public readonly name: string | undefined;
+
+  /**
+   * @throws RangeError if `workers` is not a positive integer, or
+   * `queueSize` is negative
+   */
+  public constructor(options: WorkerPoolOptions = {}) {
+    const workers = options.workers ?? 1;
+    this.queueSize = options.queueSize ?? Infinity;
+    this.policy = options.queueFull ?? "reject";
+    this.name = options.name;
+    if (!Number.isInteger(workers) || workers < 1) {
+      throw new RangeError("WorkerPool workers must be a positive integer");
+    }
+    if (Number.isNaN(this.queueSize) || this.queueSize < 0) {
+      throw new RangeError("WorkerPool queueSize must not be negative");
+    }
+
+    this.semaphore = new Semaphore(workers, { policy: "priority" });
+    this.outstanding = new WaitGroup();
+    this.roomCV = new Condition({}, this);
+  }
+
+  /**
+   * The number of jobs that may run at once
+   */
+  public get workers(): number {
+    return this.semaphore.capacity;
+  }
+
+  /**
+   * Whether the pool is still accepting jobs
+   */
+  public get isRunning(): boolean {
+    return this.state === "running";
+  }
+
+  public get stats(): WorkerPoolStats {
+    return {
+      queued: this.queued.size,
+      active: this.running.size,
+      workers: this.semaphore.capacity,
+      completed: this.completedJobs,
+      failed: this.failedJobs,
+      rejected: this.rejectedJobs,
+    };
+  }
+
+  /**
+   * Changes the number of jobs that may run at once
+   *
+   * Growing the pool starts queued jobs right away. Shrinking it lets
+   * running jobs finish, but starts no more until fewer than `workers`
+   * are running.
+   *
+   * @throws RangeError if `workers` is not a positive integer
+   */
+  public resize(workers: number): void {
+    if (!Number.isInteger(workers) || workers < 1) {
+      throw new RangeError("WorkerPool workers must be a positive integer");
+    }
+    this.semaphore.setCapacity(workers);
+  }
+
+  // Whether a job submitted now would start without queueing.
+  private get hasIdleWorker(): boolean {
+    return this.semaphore.available > 0 && this.semaphore.waiting === 0;
+  }
+
+  /**
+   * Runs a job once a worker is free
+   *
+   * @param job - Called with a signal that is aborted if the job's own
+   * `signal` is, or if the pool is shut down while the job is running
+   * @param options - An optional `signal` and `priority` for the job
+   * @returns The value the job returned
+   * @throws WorkerPoolClosedException if the pool is draining or shut down,
+   * or was shut down before the job started
+   * @throws WorkerPoolFullException if the queue was full, or the job was
+   * dropped from it
+   * @throws JobCancelledException if the optional `signal` was aborted
+   * before the job started
+   * @throws The error that the job threw
+   */
+  public async submit<T>(
+    job: Job<T>,
+    options: SubmitOptions = {}
+  ): Promise<T> {
+    const { signal, priority = 0 } = options;
+    // Counted before waiting for room, so that draining waits for this job.
+    this.outstanding.add();
+    try {
+      // Room is claimed synchronously, so that concurrent submissions can't
+      // all claim the same room.
+      while (!this.claimRoom(signal)) await this.roomCV.wait(signal);
+      return await this.queue(job, signal, priority);
+    } finally {
+      this.outstanding.done();
+    }
+  }
+
+  // Applies the queue full policy, returning whether the job may be queued
+  // now, or throwing if it never may be.
+  private claimRoom(signal: AbortSignal | undefined): boolean {
+    if (this.state !== "running") {
+      throw new WorkerPoolClosedException(
+        "Jobs can only be submitted while the WorkerPool is running"
+      );
+    }
+    if (signal?.aborted === true) {
+      throw new JobCancelledException("The job was cancelled");
+    }
+    if (this.hasIdleWorker || this.queued.size < this.queueSize) return true;
+
+    const [oldest] = this.queued;
+    switch (this.policy) {
+      case "reject":
+        this.rejectedJobs++;
+        throw new WorkerPoolFullException("The WorkerPool's queue is full");
+      case "dropOldest":
+        this.rejectedJobs++;
+        // Without a queue, the new job is the only one that can be dropped.
+        if (oldest === undefined) {
+          throw new WorkerPoolFullException("The WorkerPool's queue is full");
+        }
+        oldest.abort(
+          new WorkerPoolFullException("The job was dropped from the queue")
+        );
+        // Its acquisition is only cancelled asynchronously, so stop counting
+        // it now.
+        this.queued.delete(oldest);
+        return true;
+      case "block":
+        return false;
+    }
+  }
+
+  // Waits for a worker, then runs the job on it.
+  private async queue<T>(
+    job: Job<T>,
+    signal: AbortSignal | undefined,
+    priority: number
+  ): Promise<T> {
+    const controller = new AbortController();
+    const cancelOnSignal = () =>
+      controller.abort(new JobCancelledException("The job was cancelled"));
+    signal?.addEventListener("abort", cancelOnSignal, { once: true });
+    if (!this.hasIdleWorker) this.queued.add(controller);
+    try {
+      let handle: number | undefined;
+      try {
+        handle = await this.semaphore.acquire(controller.signal, priority);
+      } finally {
+        this.queued.delete(controller);
+      }
+      if (handle === undefined) {
+        // The job left the queue without starting, which makes room.
+        this.roomCV.notifyOne();
+        throw controller.signal.reason;
+      }
+
+      this.running.add(controller);
+      try {
+        const result = await job(controller.signal);
+        this.completedJobs++;
+        return result;
+      } catch (e: unknown) {
+        this.failedJobs++;
+        throw e;
+      } finally {
+        this.running.delete(controller);
+        this.semaphore.release(handle);
+        this.roomCV.notifyOne();
+      }
+    } finally {
+      signal?.removeEventListener("abort", cancelOnSignal);
+    }
+  }
+
+  /**
+   * Stops accepting jobs, and waits for the queued and running jobs to finish
+   *
+   * Submissions still waiting for room under the `"block"` policy are
+   * rejected with a {@link WorkerPoolClosedException}.
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline, which stop waiting without stopping the drain
+   * @returns Whether every job finished, or false if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async drain(
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<boolean> {
+    if (this.state === "running") this.state = "draining";
+    this.roomCV.notifyAll();
+    if (!(await this.outstanding.wait(signalOrOptions))) return false;
+    this.state = "stopped";
+    return true;
+  }
+
+  /**
+   * Stops accepting jobs, rejects the queued jobs, and aborts the signals
+   * of the running jobs
+   *
+   * @returns A promise that resolves once the running jobs have finished
+   */
+  public async shutdown(): Promise<void> {
+    this.state = "stopped";
+    this.roomCV.notifyAll();
+    const reason = new WorkerPoolClosedException(
+      "The WorkerPool was shut down"
+    );
+    for (const controller of [...this.queued, ...this.running]) {
+      controller.abort(reason);
+    }
+    await this.outstanding.wait();
+  }
+}
@@ -0,0 +1,349 @@
+import type { MessagePort, TransferListItem } from "worker_threads";
+import {
+  Channel,
+  ChannelClosedException,
+  ChannelOptions,
+  ReadCancelledException,
+} from "./channel";
+import { Condition } from "./condition";
+import { WaitOptions } from "./timeout";
+
+type PortMessage<T> =
+  | { kind: "value"; value: T }
+  | { kind: "credit"; count: number }
+  // The reason is wrapped, so that a reason of undefined can be told apart
+  // from no reason at all.
+  | { kind: "close"; reason?: { error: unknown } };
+
+// Node clones a DOMException, like a DataCloneError, as an empty object, so
+// one is sent as an Error with the same message instead. The tag is checked
+// rather than the class, since the error may come from another realm.
+function cloneableReason(reason: unknown): unknown {
+  if (Object.prototype.toString.call(reason) !== "[object DOMException]") {
+    return reason;
+  }
+  return new Error((reason as DOMException).message);
+}
+
+export interface PortChannelOptions<T> extends ChannelOptions {
+  /**
+   * Lists the transferable objects within a value written to the sending
+   * end, like `ArrayBuffer`s or `MessagePort`s, so that they are moved to
+   * the receiving end instead of being copied. Values are otherwise sent
+   * with the structured clone algorithm.
+   */
+  transfer?: (value: T) => readonly TransferListItem[];
+}
+
+/**
+ * One end of a {@link Channel} that spans a `MessagePort`
+ *
+ * The sending end is created on one side of a `MessageChannel`, or of a
+ * worker's `parentPort`, with {@link PortChannel.sender}, and the
+ * receiving end on the other side with {@link PortChannel.receiver}.
+ * Values written to the sending end are read from the receiving end:
+ *
+ * ```ts
+ * // In the main thread:
+ * const { port1, port2 } = new MessageChannel();
+ * new Worker(script, { workerData: { port: port2 }, transferList: [port2] });
+ * const results = PortChannel.receiver<Result>(port1);
+ * // In the worker:
+ * const results = PortChannel.sender<Result>(workerData.port);
+ * await results.write(result);
+ * ```
+ *
+ * The receiving end grants the sending end one credit for each read that
+ * is waiting, and the sending end only takes a value from a writer once it
+ * has a credit to spend. Writes to an unbuffered sending end therefore
+ * still block until a reader on the other side is ready for them. A read
+ * that is aborted takes its credit back, although a value that was already
+ * sent for it stays on the receiving end for the next read, so its write
+ * has completed without a reader. The receiving end's `capacity` is instead
+ * the number of values it requests ahead of any reads.
+ *
+ * Closing either end closes the other, with the same reason if one was
+ * given and it can be cloned across the port. Values already written to
+ * the sending end are still delivered, as they are when closing a
+ * buffered Channel, and the port is closed once both ends are done with it.
+ *
+ * Only write to the sending end and read from the receiving end, since
+ * values never cross the port in the other direction.
+ */
+export class PortChannel<T> extends Channel<T> {
+  private remoteClosed = false;
+  private localCloseReason: { error: unknown } | undefined = undefined;
+  private remoteCloseReason: { error: unknown } | undefined = undefined;
+  // Sending end: the error that kept a value from being sent.
+  private sendFailure: { error: unknown } | undefined = undefined;
+  // Sending end: the reads the receiving end is ready for.
+  private credit = 0;
+  private readonly creditCV: Condition;
+  // Sending end: aborts the read waiting for a value to spend a credit on.
+  private pumpRead: AbortController | undefined = undefined;
+  // Receiving end: values that have arrived, but not yet been read.
+  private readonly pending: T[] = [];
+  private delivering = false;
+  // Receiving end: credits granted that no value has arrived for yet.
+  private outstanding = 0;
+  private readersWaiting = 0;
+
+  private constructor(
+    private readonly port: MessagePort,
+    private readonly role: "sender" | "receiver",
+    private readonly window: number,
+    private readonly transfer:
+      | ((value: T) => readonly TransferListItem[])
+      | undefined,
+    options: ChannelOptions
+  ) {
+    super(options);
+    this.creditCV = new Condition({}, this);
+    port.on("message", this.onMessage);
+    port.on("close", this.onPortClose);
+  }
+
+  /**
+   * Creates the end of a channel that values are written to
+   *
+   * @param port - The port whose other side has the receiving end
+   * @param options - The `capacity` is the number of values that can be
+   * written before any are sent
+   */
+  public static sender<T>(
+    port: MessagePort,
+    options: PortChannelOptions<T> = {}
+  ): PortChannel<T> {
+    const { transfer, ...channelOptions } = options;
+    const channel = new PortChannel<T>(
+      port,
+      "sender",
+      0,
+      transfer,
+      channelOptions
+    );
+    // The pump never rejects: failing to send a value closes both ends
+    // with the error instead.
+    void channel.pump();
+    return channel;
+  }
+
+  /**
+   * Creates the end of a channel that values are read from
+   *
+   * @param port - The port whose other side has the sending end
+   * @param options - The `capacity` is the number of values requested from
+   * the sending end before any reads are waiting for them
+   */
+  public static receiver<T>(
+    port: MessagePort,
+    options: ChannelOptions = {}
+  ): PortChannel<T> {
+    const window = options.capacity ?? 0;
+    const channel = new PortChannel<T>(port, "receiver", window, undefined, {
+      ...options,
+      capacity: 0,
+    });
+    channel.requestValues();
+    return channel;
+  }
+
+  private post(
+    message: PortMessage<T>,
+    transfer?: readonly TransferListItem[]
+  ): void {
+    this.port.postMessage(message, transfer);
+  }
+
+  private readonly onMessage = (message: PortMessage<T>) => {
+    switch (message.kind) {
+      case "value":
+        this.outstanding--;
+        this.pending.push(message.value);
+        void this.deliver();
+        break;
+      case "credit":
+        this.credit += message.count;
+        // The credit was taken back before a writer came along to spend it.
+        if (this.credit < 1) this.pumpRead?.abort();
+        this.creditCV.notifyAll();
+        break;
+      case "close":
+        this.remoteClosed = true;
+        this.finishRemoteClose(message.reason);
+        break;
+    }
+  };
+
+  private readonly onPortClose = () => {
+    this.port.off("message", this.onMessage);
+    this.port.off("close", this.onPortClose);
+    // The other side may have gone away without telling us.
+    this.remoteClosed = true;
+    this.finishRemoteClose();
+  };
+
+  // Closes this end after the other end closed, once any values that have
+  // arrived have been delivered.
+  private finishRemoteClose(reason?: { error: unknown }): void {
+    this.remoteCloseReason ??= reason;
+    this.creditCV.notifyAll();
+    if (this.delivering) return;
+    super.close(this.remoteCloseReason?.error);
+    this.port.close();
+  }
+
+  // Tells the other end that this end has closed, with the reason if it
+  // survives being cloned.
+  private postClose(): void {
+    const reason = this.localCloseReason;
+    if (reason !== undefined) {
+      try {
+        this.post({
+          kind: "close",
+          reason: { error: cloneableReason(reason.error) },
+        });
+        return;
+      } catch {
+        // The reason can't be cloned, so the other end gets none.
+      }
+    }
+    this.post({ kind: "close" });
+  }
+
+  public override close(reason?: unknown): void {
+    if (this.isClosed) return;
+    if (reason !== undefined) this.localCloseReason = { error: reason };
+    super.close(reason);
+    this.creditCV.notifyAll();
+    if (this.role === "receiver") {
+      this.pending.length = 0;
+      if (!this.remoteClosed) this.postClose();
+    }
+    // The sending end tells the receiving end once it has sent everything.
+  }
+
+  protected override readerParked(): void {
+    this.readersWaiting++;
+    this.requestValues();
+  }
+
+  protected override readerUnparked(received: boolean): void {
+    this.readersWaiting--;
+    if (!received) this.returnCredit();
+  }
+
+  // Grants the sending end enough credit for every waiting read, plus the
+  // window, that isn't already covered by a value on its way.
+  private requestValues(): void {
+    if (this.role !== "receiver" || this.remoteClosed || this.isClosed) return;
+    const wanted =
+      this.window +
+      this.readersWaiting -
+      this.pending.length -
+      this.outstanding;
+    if (wanted < 1) return;
+    this.outstanding += wanted;
+    this.post({ kind: "credit", count: wanted });
+  }
+
+  // Takes back the credit granted for reads that stopped waiting, as far as
+  // no value is on its way for it yet. If one is, the sending end's credit
+  // briefly goes negative, and the value counts toward the next read.
+  private returnCredit(): void {
+    if (this.role !== "receiver" || this.remoteClosed || this.isClosed) return;
+    const excess =
+      this.pending.length +
+      this.outstanding -
+      this.window -
+      this.readersWaiting;
+    const returned = Math.min(excess, this.outstanding);
+    if (returned < 1) return;
+    this.outstanding -= returned;
+    this.post({ kind: "credit", count: -returned });
+  }
+
+  // Writes values that arrived to this end's readers, in order.
+  private async deliver(): Promise<void> {
+    if (this.delivering) return;
+    this.delivering = true;
+    try {
+      while (this.pending.length > 0) {
+        await this.write(this.pending[0]);
+        this.pending.shift();
+        this.requestValues();
+      }
+    } catch (e: unknown) {
+      // This end was closed, so nobody can read what's left.
+      if (!(e instanceof ChannelClosedException)) throw e;
+      this.pending.length = 0;
+    } finally {
+      this.delivering = false;
+    }
+    if (this.remoteClosed) this.finishRemoteClose();
+  }
+
+  // Sends values to the receiving end as it grants credit for them.
+  private async pump(): Promise<void> {
+    for (;;) {
+      while (
+        this.credit < 1 &&
+        !this.remoteClosed &&
+        !(this.isClosed && this.length === 0)
+      ) {
+        await this.creditCV.wait();
+      }
+      if (this.remoteClosed || this.credit < 1) break;
+
+      let value: T;
+      this.pumpRead = new AbortController();
+      try {
+        value = await this.read(this.pumpRead.signal);
+      } catch (e: unknown) {
+        if (e instanceof ReadCancelledException) continue;
+        // This end was closed and drained, and a read rejects with either a
+        // ChannelClosedException or the reason it was closed with.
+        break;
+      } finally {
+        this.pumpRead = undefined;
+      }
+      this.credit--;
+      try {
+        this.post({ kind: "value", value }, this.transfer?.(value));
+      } catch (e: unknown) {
+        // The value couldn't be cloned or transferred, so it was lost, and
+        // both ends fail with the cause rather than waiting forever.
+        this.sendFailure = { error: e };
+        this.close(e);
+        this.localCloseReason ??= { error: e };
+        break;
+      }
+    }
+    if (!this.remoteClosed) this.postClose();
+  }
+
+  /**
+   * Writes a value to be sent to the receiving end
+   *
+   * @throws The error that kept an earlier value from being sent, like a
+   * `DataCloneError`, instead of a ChannelClosedException
+   * @see Channel#write
+   */
+  public override async write(
+    value: T,
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority = 0
+  ): Promise<void> {
+    try {
+      await super.write(value, signalOrOptions, priority);
+    } catch (e: unknown) {
+      if (
+        e instanceof ChannelClosedException &&
+        this.sendFailure !== undefined
+      ) {
+        throw this.sendFailure.error;
+      }
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,317 @@
+import { Clock, ClockOptions, systemClock } from "./clock";
+import { Condition } from "./condition";
+import { Diagnosable, NamedOptions } from "./diagnostics";
+import { sleep } from "./sleep";
+import { WaitOptions, WaitScope, orTimedOut } from "./timeout";
+
+interface TokenWaiter {
+  readonly tokens: number;
+  readonly cv: Condition;
+}
+
+/**
+ * The waiting and wrapping shared by {@link TokenBucket} and {@link SlidingWindowLimiter}
+ *
+ * Waiters are served strictly in arrival order: only the waiter at the head
+ * of the queue sleeps until enough tokens are available, so a large request
+ * is never starved by a stream of small ones, and `tryAcquire` never takes
+ * tokens while anyone is waiting.
+ */
+export abstract class RateLimiter implements Diagnosable {
+  private readonly waiters: TokenWaiter[] = [];
+  protected readonly clock: Clock;
+  public readonly name: string | undefined;
+
+  protected constructor(options: ClockOptions & NamedOptions) {
+    this.clock = options.clock ?? systemClock;
+    this.name = options.name;
+  }
+
+  /**
+   * The largest number of tokens that a single acquisition can take
+   */
+  public abstract get burst(): number;
+
+  /**
+   * Takes `tokens` if they are available now
+   *
+   * @returns Whether the tokens were taken
+   */
+  protected abstract take(tokens: number): boolean;
+
+  /**
+   * @returns How many milliseconds until `tokens` could be taken
+   */
+  protected abstract delayFor(tokens: number): number;
+
+  public get waiting(): number {
+    return this.waiters.length;
+  }
+
+  private validateTokens(tokens: number): void {
+    if (!Number.isInteger(tokens) || tokens < 1) {
+      throw new RangeError("Rate limiter tokens must be a positive integer");
+    }
+    if (tokens > this.burst) {
+      throw new RangeError(
+        `Cannot acquire ${tokens} tokens from a rate limiter with a burst of ${this.burst}`
+      );
+    }
+  }
+
+  /**
+   * Takes tokens without waiting
+   *
+   * @param tokens - The number of tokens to take, defaulting to 1
+   * @returns Whether the tokens were taken. Always false while others are waiting.
+   * @throws RangeError if `tokens` is not a positive integer no larger than the burst
+   */
+  public tryAcquire(tokens = 1): boolean {
+    this.validateTokens(tokens);
+    return this.waiters.length < 1 && this.take(tokens);
+  }
+
+  /**
+   * Waits until tokens are available, then takes them
+   *
+   * @param tokens - The number of tokens to take, defaulting to 1
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline, measured by this limiter's clock by default
+   * @returns Whether the tokens were taken. If false, the acquisition has been aborted.
+   * @throws RangeError if `tokens` is not a positive integer no larger than the burst
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async acquire(
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<boolean>;
+  public async acquire(
+    tokens: number,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<boolean>;
+  public async acquire(
+    tokensOrSignal?: number | AbortSignal | WaitOptions,
+    maybeSignal?: AbortSignal | WaitOptions
+  ): Promise<boolean> {
+    const [tokens, signalOrOptions] =
+      typeof tokensOrSignal === "number"
+        ? [tokensOrSignal, maybeSignal]
+        : [1, tokensOrSignal];
+    this.validateTokens(tokens);
+    const scope = new WaitScope(signalOrOptions, this.clock);
+    try {
+      const acquired = await this.acquireWithin(tokens, scope.signal);
+      if (!acquired) scope.throwIfTimedOut();
+      return acquired;
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  private async acquireWithin(
+    tokens: number,
+    signal: AbortSignal | undefined
+  ): Promise<boolean> {
+    if (signal?.aborted === true) return false;
+    if (this.tryAcquire(tokens)) return true;
+
+    const waiter: TokenWaiter = { tokens, cv: new Condition({}, this) };
+    this.waiters.push(waiter);
+    try {
+      // The waiter ahead of us notifies us once it leaves the queue.
+      if (this.waiters[0] !== waiter && !(await waiter.cv.wait(signal))) {
+        return false;
+      }
+      while (!this.take(tokens)) {
+        const delay = Math.ceil(this.delayFor(tokens));
+        if (!(await sleep(delay, signal, this.clock))) return false;
+      }
+      return true;
+    } finally {
+      const waiterIndex = this.waiters.indexOf(waiter);
+      this.waiters.splice(waiterIndex, 1);
+      if (waiterIndex === 0) this.waiters[0]?.cv.notifyOne();
+    }
+  }
+
+  public async withPermit<T>(
+    fn: () => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
+    return await this.withPermits(1, fn, signalOrOptions);
+  }
+
+  public async withPermits<T>(
+    tokens: number,
+    fn: () => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
+    const acquired = await orTimedOut(this.acquire(tokens, signalOrOptions));
+    if (acquired === "timedOut") return { status: "timedOut" };
+    if (!acquired) return { status: "aborted" };
+    const result = await fn();
+    return { status: "acquired", result };
+  }
+}
+
+export interface TokenBucketOptions extends ClockOptions, NamedOptions {
+  /** How many tokens are added every `intervalMs` */
+  tokensPerInterval: number;
+  /** Defaults to 1000, so that `tokensPerInterval` is a rate per second */
+  intervalMs?: number;
+  /** The most tokens the bucket holds, defaulting to `tokensPerInterval` */
+  burst?: number;
+  /** The tokens the bucket starts with, defaulting to `burst` */
+  initialTokens?: number;
+}
+
+/**
+ * Limits the rate of acquisitions, allowing short bursts
+ *
+ * Tokens are added continuously at a fixed rate, up to the burst size,
+ * and each acquisition takes one or more of them.
+ */
+export class TokenBucket extends RateLimiter {
+  private readonly ratePerMs: number;
+  private readonly burstSize: number;
+  private tokens: number;
+  private refilledAt: number;
+
+  /**
+   * @throws RangeError if the rate or burst is not positive
+   */
+  public constructor(options: TokenBucketOptions) {
+    super(options);
+    const intervalMs = options.intervalMs ?? 1000;
+    this.burstSize = options.burst ?? options.tokensPerInterval;
+    if (options.tokensPerInterval <= 0 || intervalMs <= 0) {
+      throw new RangeError("TokenBucket rate must be positive");
+    }
+    if (this.burstSize < 1) {
+      throw new RangeError("TokenBucket burst must be at least 1");
+    }
+    this.ratePerMs = options.tokensPerInterval / intervalMs;
+    this.tokens = Math.min(
+      options.initialTokens ?? this.burstSize,
+      this.burstSize
+    );
+    this.refilledAt = this.clock.now();
+  }
+
+  public get burst(): number {
+    return this.burstSize;
+  }
+
+  /**
+   * The number of tokens that could be taken right now
+   */
+  public get available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    this.tokens = Math.min(
+      this.burstSize,
+      this.tokens + (now - this.refilledAt) * this.ratePerMs
+    );
+    this.refilledAt = now;
+  }
+
+  protected take(tokens: number): boolean {
+    this.refill();
+    if (this.tokens < tokens) return false;
+    this.tokens -= tokens;
+    return true;
+  }
+
+  protected delayFor(tokens: number): number {
+    this.refill();
+    return Math.max(0, (tokens - this.tokens) / this.ratePerMs);
+  }
+}
+
+export interface SlidingWindowLimiterOptions
+  extends ClockOptions,
+    NamedOptions {
+  /** The most tokens that can be taken in any window */
+  limit: number;
+  /** The length of the window in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Limits the number of acquisitions within any rolling window of time
+ *
+ * Unlike a fixed window, which allows twice the limit across a window
+ * boundary, every window of `windowMs` sees at most `limit` tokens taken.
+ * The limit is also the largest burst.
+ */
+export class SlidingWindowLimiter extends RateLimiter {
+  private readonly limit: number;
+  private readonly windowMs: number;
+  // The time and size of each acquisition still inside the window, oldest first.
+  private readonly log: { at: number; tokens: number }[] = [];
+  private used = 0;
+
+  /**
+   * @throws RangeError if the limit or window is not positive
+   */
+  public constructor(options: SlidingWindowLimiterOptions) {
+    super(options);
+    if (options.limit < 1 || options.windowMs <= 0) {
+      throw new RangeError(
+        "SlidingWindowLimiter limit and window must be positive"
+      );
+    }
+    this.limit = options.limit;
+    this.windowMs = options.windowMs;
+  }
+
+  public get burst(): number {
+    return this.limit;
+  }
+
+  /**
+   * The number of tokens that could be taken right now
+   */
+  public get available(): number {
+    this.expire(this.clock.now());
+    return this.limit - this.used;
+  }
+
+  private expire(now: number): void {
+    while (this.log.length > 0 && this.log[0].at + this.windowMs <= now) {
+      this.used -= this.log.shift()!.tokens;
+    }
+  }
+
+  protected take(tokens: number): boolean {
+    const now = this.clock.now();
+    this.expire(now);
+    if (this.used + tokens > this.limit) return false;
+    this.log.push({ at: now, tokens });
+    this.used += tokens;
+    return true;
+  }
+
+  protected delayFor(tokens: number): number {
+    const now = this.clock.now();
+    this.expire(now);
+    let excess = this.used + tokens - this.limit;
+    for (const entry of this.log) {
+      if (excess <= 0) break;
+      excess -= entry.tokens;
+      if (excess <= 0) return entry.at + this.windowMs - now;
+    }
+    return 0;
+  }
+}
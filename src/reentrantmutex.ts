@@ -0,0 +1,148 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { DisposableHandle } from "./disposable";
+import { Mutex, MutexOptions } from "./mutex";
+import { WaitOptions, orTimedOut } from "./timeout";
+
+export class LockNotOwnedException extends Error {}
+
+export type ReentrantMutexOptions = MutexOptions;
+
+/**
+ * A Mutex that can be acquired again by the task that already holds it
+ *
+ * Ownership follows the async call chain. {@link ReentrantMutex#withLock}
+ * runs its function in an `AsyncLocalStorage` context that identifies the
+ * holder, so nested calls to `withLock` or `acquire` made from inside that
+ * function, however deeply awaited, re-enter the lock instead of deadlocking.
+ * Every nested acquisition increments a hold count, and the lock is only
+ * released once the count returns to zero.
+ *
+ * Anything started from inside the function, including work that is not
+ * awaited, inherits the holder's context and counts as the same task.
+ * A call chain only has an owner's context inside of `withLock`, so that
+ * is the only way to take the lock in the first place. Calls to `acquire`
+ * and `lock` only add holds to a lock the current task already holds.
+ */
+export class ReentrantMutex {
+  private readonly mutex: Mutex;
+  private readonly owner = new AsyncLocalStorage<number>();
+  private handle: number | undefined = undefined;
+  private holds = 0;
+
+  /**
+   * @param options - The `policy` decides which waiter acquires the lock next,
+   * and defaults to `"random"`.
+   */
+  public constructor(options: ReentrantMutexOptions = {}) {
+    this.mutex = new Mutex(options);
+  }
+
+  public get isLocked(): boolean {
+    return this.handle !== undefined;
+  }
+
+  /**
+   * The number of times the current holder has acquired the lock
+   */
+  public get holdCount(): number {
+    return this.holds;
+  }
+
+  /**
+   * Whether the lock is held by the current async call chain
+   */
+  public get isHeldByCurrentTask(): boolean {
+    return this.handle !== undefined && this.owner.getStore() === this.handle;
+  }
+
+  /**
+   * Adds a hold on the lock, which the current task must already hold
+   * through {@link ReentrantMutex#withLock}
+   *
+   * @returns A handle to pass to {@link ReentrantMutex#release}
+   * @throws LockNotOwnedException if the current task does not hold the lock
+   */
+  public acquire(): number {
+    if (!this.isHeldByCurrentTask) {
+      throw new LockNotOwnedException(
+        "A ReentrantMutex can only be acquired again from inside of withLock"
+      );
+    }
+    this.holds++;
+    return this.handle!;
+  }
+
+  /**
+   * Releases one hold on the lock
+   *
+   * @param handle - The handle returned by {@link ReentrantMutex#acquire}
+   * @throws LockNotOwnedException if the handle does not hold the lock, or the
+   * caller is not running in the `withLock` function holding it
+   */
+  public release(handle: number | undefined): void {
+    if (handle === undefined) return;
+    if (this.handle === undefined || this.handle !== handle) {
+      throw new LockNotOwnedException(
+        "Cannot release a ReentrantMutex with a handle that does not hold it"
+      );
+    }
+    if (!this.isHeldByCurrentTask) {
+      throw new LockNotOwnedException(
+        "Cannot release a ReentrantMutex from outside of the task holding it"
+      );
+    }
+    this.releaseHold();
+  }
+
+  /**
+   * Adds a hold on the lock as a {@link DisposableHandle}, for use with `using`
+   *
+   * Disposing the handle releases the hold, in the same way as {@link ReentrantMutex#release}.
+   *
+   * @throws LockNotOwnedException if the current task does not hold the lock
+   */
+  public lock(): DisposableHandle {
+    return new DisposableHandle(this.acquire(), (h) => this.release(h));
+  }
+
+  private releaseHold(): void {
+    if (--this.holds > 0) return;
+    const handle = this.handle;
+    this.handle = undefined;
+    this.mutex.release(handle);
+  }
+
+  public async withLock<T>(
+    fn: () => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
+    if (this.isHeldByCurrentTask) {
+      this.holds++;
+      try {
+        const result = await fn();
+        return { status: "acquired", result };
+      } finally {
+        this.releaseHold();
+      }
+    }
+
+    const handle = await orTimedOut(
+      this.mutex.acquire(signalOrOptions, priority)
+    );
+    if (handle === "timedOut") return { status: "timedOut" };
+    if (handle === undefined) return { status: "aborted" };
+    this.handle = handle;
+    this.holds = 1;
+    try {
+      const result = await this.owner.run(handle, fn);
+      return { status: "acquired", result };
+    } finally {
+      this.releaseHold();
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { ClockOptions, systemClock } from "./clock";
+import { sleep } from "./sleep";
+
+/**
+ * Thrown when a {@link retry}'s `signal` is aborted while no attempt is running
+ */
+export class RetryCancelledException extends Error {}
+
+/**
+ * How long {@link retry} waits before each retry
+ *
+ * - `"exponential"` doubles the delay after every failed attempt
+ * - `"linear"` grows the delay by `baseDelayMs` after every failed attempt
+ * - `"decorrelatedJitter"` picks a random delay between `baseDelayMs` and
+ *   three times the previous delay, which spreads out clients that failed
+ *   together, as described in the AWS Architecture Blog's "Exponential
+ *   Backoff And Jitter"
+ *
+ * Every strategy is capped at `maxDelayMs`.
+ */
+export type Backoff = "exponential" | "linear" | "decorrelatedJitter";
+
+export interface RetryOptions extends ClockOptions {
+  /**
+   * The most times to call the function, including the first, defaulting to 3
+   */
+  attempts?: number;
+  /**
+   * Defaults to `"exponential"`
+   */
+  backoff?: Backoff;
+  /**
+   * The delay before the first retry, defaulting to 100
+   */
+  baseDelayMs?: number;
+  /**
+   * The longest delay between attempts, defaulting to 10000
+   */
+  maxDelayMs?: number;
+  /**
+   * Decides whether an attempt's error is worth retrying, defaulting to
+   * retrying every error
+   *
+   * @param attempt - The number of the attempt that failed, starting at 1
+   */
+  retryIf?: (error: unknown, attempt: number) => boolean;
+  /**
+   * Stops retrying when aborted, and aborts the attempt in progress
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Computes the delays between attempts for one call to {@link retry}
+ */
+class BackoffDelays {
+  private previousMs: number;
+
+  public constructor(
+    private readonly backoff: Backoff,
+    private readonly baseDelayMs: number,
+    private readonly maxDelayMs: number
+  ) {
+    this.previousMs = baseDelayMs;
+  }
+
+  /**
+   * @param failures - The number of attempts that have failed so far
+   */
+  public next(failures: number): number {
+    let delayMs: number;
+    switch (this.backoff) {
+      case "exponential":
+        delayMs = this.baseDelayMs * 2 ** (failures - 1);
+        break;
+      case "linear":
+        delayMs = this.baseDelayMs * failures;
+        break;
+      case "decorrelatedJitter": {
+        const upperMs = this.previousMs * 3;
+        delayMs =
+          this.baseDelayMs + Math.random() * (upperMs - this.baseDelayMs);
+        break;
+      }
+    }
+    this.previousMs = Math.min(this.maxDelayMs, delayMs);
+    return this.previousMs;
+  }
+}
+
+/**
+ * Calls `fn` until it succeeds, waiting longer after each failure
+ *
+ * ```ts
+ * const response = await retry((signal) => fetch(url, { signal }), {
+ *   attempts: 5,
+ *   backoff: "decorrelatedJitter",
+ *   retryIf: (error) => isTransient(error),
+ * });
+ * ```
+ *
+ * Each attempt gets its own signal, which is aborted once that attempt
+ * has finished or the `signal` passed to `retry` is aborted, so that work
+ * left behind by a failed attempt doesn't keep running.
+ *
+ * @param fn - Called with the attempt's signal and its number, starting at 1
+ * @returns The value returned by the first successful attempt
+ * @throws RangeError if `attempts` is not a positive integer
+ * @throws RetryCancelledException if the optional `signal` was aborted
+ * before the first attempt or during a backoff
+ * @throws The error thrown by the last attempt, once it is not retried
+ * or the optional `signal` has been aborted
+ */
+export async function retry<T>(
+  fn: (signal: AbortSignal, attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const attempts = options.attempts ?? 3;
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new RangeError("retry attempts must be a positive integer");
+  }
+  const delays = new BackoffDelays(
+    options.backoff ?? "exponential",
+    options.baseDelayMs ?? 100,
+    options.maxDelayMs ?? 10000
+  );
+  const { retryIf = () => true, signal, clock = systemClock } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await runAttempt(fn, attempt, signal);
+    } catch (e: unknown) {
+      if (e instanceof RetryCancelledException) throw e;
+      // An attempt that failed because we aborted it isn't worth retrying.
+      if (signal?.aborted === true) throw e;
+      if (attempt >= attempts || !retryIf(e, attempt)) throw e;
+    }
+    if (!(await sleep(delays.next(attempt), signal, clock))) {
+      throw new RetryCancelledException("The retry was cancelled");
+    }
+  }
+}
+
+async function runAttempt<T>(
+  fn: (signal: AbortSignal, attempt: number) => Promise<T>,
+  attempt: number,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (signal?.aborted === true) {
+    throw new RetryCancelledException("The retry was cancelled");
+  }
+  const controller = new AbortController();
+  const abortOnSignal = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", abortOnSignal, { once: true });
+  try {
+    return await fn(controller.signal, attempt);
+  } finally {
+    signal?.removeEventListener("abort", abortOnSignal);
+    controller.abort();
+  }
+}
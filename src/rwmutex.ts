@@ -0,0 +1,351 @@
+import { Condition } from "./condition";
+import { Diagnosable, NamedOptions, activeDiagnostics } from "./diagnostics";
+import { DisposableHandle } from "./disposable";
+import { activeInstrumentation } from "./instrumentation";
+import { PolicyOptions } from "./policy";
+import { WaitOptions, WaitScope, orTimedOut } from "./timeout";
+
+export interface RWMutexOptions extends PolicyOptions, NamedOptions {
+  /**
+   * When true, new readers wait behind pending writers, which prevents
+   * a steady stream of readers from starving writers. Defaults to false.
+   */
+  preferWriters?: boolean;
+}
+
+/**
+ * A non-reentrant reader-writer lock
+ *
+ * Any number of readers can hold the lock at once, but a writer holds
+ * it exclusively. Handles returned by {@link RWMutex#acquireRead} and
+ * {@link RWMutex#acquireWrite} are passed back to the matching release
+ * method, similarly to {@link Mutex}.
+ *
+ * A reader can upgrade to a writer with {@link RWMutex#upgrade}, and a
+ * writer can downgrade to a reader with {@link RWMutex#downgrade}, without
+ * letting another writer in between.
+ */
+export class RWMutex implements Diagnosable {
+  private readonly readHandles: Set<number> = new Set();
+  private writeHandle: number | undefined = undefined;
+  private upgradeHandle: number | undefined = undefined;
+  private pendingWriters = 0;
+  private nextHandle = 0;
+
+  private readonly readCV: Condition;
+  private readonly writeCV: Condition;
+  private readonly upgradeCV: Condition;
+  private readonly preferWriters: boolean;
+  public readonly name: string | undefined;
+
+  /**
+   * @param options - The `policy` decides the order waiting readers and writers
+   * are woken in, and defaults to `"random"`.
+   */
+  public constructor(options: RWMutexOptions = {}) {
+    this.readCV = new Condition(options, this);
+    this.writeCV = new Condition(options, this);
+    this.upgradeCV = new Condition({}, this);
+    this.preferWriters = options.preferWriters ?? false;
+    this.name = options.name;
+  }
+
+  /**
+   * The number of read handles currently held
+   */
+  public get readers(): number {
+    return this.readHandles.size;
+  }
+
+  public get isWriteLocked(): boolean {
+    return this.writeHandle !== undefined;
+  }
+
+  private get canRead(): boolean {
+    if (this.writeHandle !== undefined) return false;
+    if (this.upgradeHandle !== undefined) return false;
+    return !this.preferWriters || this.pendingWriters < 1;
+  }
+
+  private get canWrite(): boolean {
+    return (
+      this.writeHandle === undefined &&
+      this.upgradeHandle === undefined &&
+      this.readHandles.size < 1
+    );
+  }
+
+  // Notifies whoever is able to make progress after a state change.
+  // Woken waiters re-check their conditions, so spurious wakes are harmless.
+  private wake(): void {
+    if (this.writeHandle !== undefined) return;
+    if (this.upgradeHandle !== undefined) {
+      // The upgrading reader only waits for the other readers to leave.
+      if (this.readHandles.size <= 1) this.upgradeCV.notifyOne();
+      return;
+    }
+    if (this.readHandles.size < 1) this.writeCV.notifyOne();
+    if (this.canRead) this.readCV.notifyAll();
+  }
+
+  /**
+   * Acquires a read lock, shared with any other readers
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @param priority - Used by the `"priority"` policy, where higher priorities acquire first
+   * @returns A handle to pass to {@link RWMutex#releaseRead}, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async acquireRead(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<number | undefined> {
+    const attempt = activeInstrumentation()?.acquireRequested(this, "read");
+    if (!this.canRead) {
+      const scope = new WaitScope(signalOrOptions);
+      try {
+        while (!this.canRead) {
+          const didWait = await this.readCV.wait(scope.signal, priority);
+          if (!didWait) {
+            attempt?.aborted(scope.hasTimedOut);
+            scope.throwIfTimedOut();
+            return undefined;
+          }
+        }
+      } finally {
+        scope.dispose();
+      }
+    }
+
+    const handle = this.nextHandle++;
+    this.readHandles.add(handle);
+    activeDiagnostics()?.acquired(this, handle);
+    attempt?.granted(handle);
+    return handle;
+  }
+
+  /**
+   * Acquires the write lock, excluding all readers and other writers
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @param priority - Used by the `"priority"` policy, where higher priorities acquire first
+   * @returns A handle to pass to {@link RWMutex#releaseWrite}, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async acquireWrite(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<number | undefined> {
+    // Pending writers are counted for the whole wait, including the time
+    // between being notified and running, so that preferWriters holds.
+    const attempt = activeInstrumentation()?.acquireRequested(this, "write");
+    this.pendingWriters++;
+    const scope = new WaitScope(signalOrOptions);
+    let acquired = false;
+    try {
+      let didWait = true;
+      while (!this.canWrite && didWait) {
+        didWait = await this.writeCV.wait(scope.signal, priority);
+      }
+      acquired = didWait;
+    } finally {
+      scope.dispose();
+      this.pendingWriters--;
+      // Readers may have been waiting behind us.
+      if (!acquired) this.wake();
+    }
+    if (!acquired) {
+      attempt?.aborted(scope.hasTimedOut);
+      scope.throwIfTimedOut();
+      return undefined;
+    }
+
+    const handle = this.nextHandle++;
+    this.writeHandle = handle;
+    activeDiagnostics()?.acquired(this, handle);
+    attempt?.granted(handle);
+    return handle;
+  }
+
+  public releaseRead(handle: number | undefined): void {
+    if (handle === undefined) return;
+    if (!this.readHandles.delete(handle)) return;
+    activeDiagnostics()?.released(this, handle);
+    activeInstrumentation()?.released(this, handle);
+    this.wake();
+  }
+
+  public releaseWrite(handle: number | undefined): void {
+    if (handle === undefined) return;
+    if (this.writeHandle !== handle) return;
+    this.writeHandle = undefined;
+    activeDiagnostics()?.released(this, handle);
+    activeInstrumentation()?.released(this, handle);
+    this.wake();
+  }
+
+  /**
+   * Converts a read handle into a write handle
+   *
+   * The read handle stays valid while the upgrade waits for other readers
+   * to release, and new readers and writers are held back in the meantime.
+   * Only one upgrade can wait at a time, because two readers waiting for
+   * each other to release would deadlock.
+   *
+   * @param readHandle - A read handle returned by {@link RWMutex#acquireRead}
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @returns A write handle, or undefined if the upgrade was aborted or another
+   * upgrade is already waiting. The read handle is only released on success.
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async upgrade(
+    readHandle: number | undefined,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<number | undefined> {
+    if (readHandle === undefined) return undefined;
+    if (!this.readHandles.has(readHandle)) return undefined;
+    if (this.upgradeHandle !== undefined) return undefined;
+
+    this.upgradeHandle = readHandle;
+    const attempt = activeInstrumentation()?.acquireRequested(this, "write");
+    const scope = new WaitScope(signalOrOptions);
+    let upgraded = false;
+    try {
+      let didWait = true;
+      while (
+        this.readHandles.size > 1 &&
+        this.readHandles.has(readHandle) &&
+        didWait
+      ) {
+        didWait = await this.upgradeCV.wait(scope.signal);
+      }
+      upgraded = didWait && this.readHandles.delete(readHandle);
+    } finally {
+      scope.dispose();
+      this.upgradeHandle = undefined;
+      // Readers and writers may have been waiting behind us.
+      if (!upgraded) this.wake();
+    }
+    if (!upgraded) {
+      attempt?.aborted(scope.hasTimedOut);
+      scope.throwIfTimedOut();
+      return undefined;
+    }
+
+    const diagnostics = activeDiagnostics();
+    diagnostics?.released(this, readHandle);
+    activeInstrumentation()?.released(this, readHandle);
+    const handle = this.nextHandle++;
+    this.writeHandle = handle;
+    diagnostics?.acquired(this, handle);
+    attempt?.granted(handle);
+    return handle;
+  }
+
+  /**
+   * Converts a write handle into a read handle without releasing the lock
+   *
+   * @param writeHandle - A write handle returned by {@link RWMutex#acquireWrite}
+   * or {@link RWMutex#upgrade}
+   * @returns A read handle, or undefined if the write handle is not held
+   */
+  public downgrade(writeHandle: number | undefined): number | undefined {
+    if (writeHandle === undefined) return undefined;
+    if (this.writeHandle !== writeHandle) return undefined;
+
+    this.writeHandle = undefined;
+    const handle = this.nextHandle++;
+    this.readHandles.add(handle);
+    const diagnostics = activeDiagnostics();
+    diagnostics?.released(this, writeHandle);
+    diagnostics?.acquired(this, handle);
+    const instrumentation = activeInstrumentation();
+    instrumentation?.released(this, writeHandle);
+    instrumentation?.acquireRequested(this, "read").granted(handle);
+    this.wake();
+    return handle;
+  }
+
+  /**
+   * Acquires a read lock as a {@link DisposableHandle}, for use with `await using`
+   *
+   * @returns A handle that releases the read lock when disposed, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async readLock(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<DisposableHandle | undefined> {
+    const handle = await this.acquireRead(signalOrOptions, priority);
+    if (handle === undefined) return undefined;
+    return new DisposableHandle(handle, (h) => this.releaseRead(h));
+  }
+
+  /**
+   * Acquires a write lock as a {@link DisposableHandle}, for use with `await using`
+   *
+   * @returns A handle that releases the write lock when disposed, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async writeLock(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<DisposableHandle | undefined> {
+    const handle = await this.acquireWrite(signalOrOptions, priority);
+    if (handle === undefined) return undefined;
+    return new DisposableHandle(handle, (h) => this.releaseWrite(h));
+  }
+
+  public async withReadLock<T>(
+    fn: () => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
+    let handle: number | undefined = undefined;
+    try {
+      const acquired = await orTimedOut(
+        this.acquireRead(signalOrOptions, priority)
+      );
+      if (acquired === "timedOut") return { status: "timedOut" };
+      handle = acquired;
+      if (handle === undefined) return { status: "aborted" };
+
+      const result = await fn();
+      return { status: "acquired", result };
+    } finally {
+      this.releaseRead(handle);
+    }
+  }
+
+  public async withWriteLock<T>(
+    fn: () => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
+    let handle: number | undefined = undefined;
+    try {
+      const acquired = await orTimedOut(
+        this.acquireWrite(signalOrOptions, priority)
+      );
+      if (acquired === "timedOut") return { status: "timedOut" };
+      handle = acquired;
+      if (handle === undefined) return { status: "aborted" };
+
+      const result = await fn();
+      return { status: "acquired", result };
+    } finally {
+      this.releaseWrite(handle);
+    }
+  }
+}
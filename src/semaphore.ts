@@ -1,44 +1,333 @@
 import { Condition } from "./condition";
+import { Diagnosable, NamedOptions, activeDiagnostics } from "./diagnostics";
+import { DisposableHandle } from "./disposable";
+import { AcquireAttempt, activeInstrumentation } from "./instrumentation";
+import { PolicyOptions, WakePolicy, nextWaiterIndex } from "./policy";
+import { WaitOptions, WaitScope, orTimedOut } from "./timeout";
 
-export class Semaphore {
-  private handles: Set<number> = new Set();
+export interface SemaphoreOptions extends PolicyOptions, NamedOptions {}
+
+interface SlotWaiter {
+  readonly permits: number;
+  readonly priority: number;
+  readonly cv: Condition;
+  // Set once grantWaiters has handed slots to this waiter.
+  granted: boolean;
+}
+
+/**
+ * Limits the number of concurrently held slots
+ *
+ * Each acquisition takes one or more slots, like Go's
+ * `x/sync/semaphore.Weighted`. Released slots are handed directly
+ * to the waiter chosen by the wake policy, so new callers cannot
+ * barge ahead of existing waiters. If the chosen waiter needs more
+ * slots than are free, every other waiter stays blocked behind it,
+ * so large acquisitions are not starved by a stream of small ones.
+ *
+ * The number of slots can be changed with {@link Semaphore#setCapacity}.
+ */
+export class Semaphore implements Diagnosable {
+  // Maps each outstanding handle to the number of slots it holds.
+  private handles: Map<number, number> = new Map();
   private nextHandle = 0;
-  private slotCV = new Condition();
+  private readonly waiters: SlotWaiter[] = [];
+  private readonly policy: WakePolicy;
+  private totalSlots: number;
+  public readonly name: string | undefined;
 
-  public constructor(private slots: number = 1) {}
+  /**
+   * @param slots - The number of slots that can be held at once
+   * @param options - The `policy` decides which waiter acquires released slots,
+   * and defaults to `"random"`.
+   */
+  public constructor(
+    private slots: number = 1,
+    options: SemaphoreOptions = {}
+  ) {
+    this.totalSlots = slots;
+    this.policy = options.policy ?? "random";
+    this.name = options.name;
+  }
 
+  /**
+   * The number of acquisitions waiting for slots
+   *
+   * An acquisition stops counting as soon as it is aborted, even though it
+   * is only removed from the queue once it resumes.
+   */
   public get waiting(): number {
-    return this.slotCV.waiting;
+    return this.waiters.filter((waiter) => waiter.cv.waiting > 0).length;
+  }
+
+  /**
+   * The number of slots that are not currently held
+   */
+  public get available(): number {
+    // After shrinking, more slots may be held than the capacity allows.
+    return Math.max(0, this.slots);
+  }
+
+  /**
+   * The number of slots that can be held at once
+   */
+  public get capacity(): number {
+    return this.totalSlots;
+  }
+
+  /**
+   * Changes the number of slots that can be held at once
+   *
+   * Growing the capacity immediately hands the new slots to waiters.
+   * Shrinking it below the number of slots currently held never revokes
+   * them: new acquisitions block until enough slots have been released to
+   * bring the held count below the new capacity. Waiters that need more
+   * slots than the new capacity keep waiting until it grows again, but
+   * no longer block the waiters behind them.
+   *
+   * @param capacity - The new number of slots
+   * @throws RangeError if `capacity` is not a positive integer
+   */
+  public setCapacity(capacity: number): void {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new RangeError("Semaphore capacity must be a positive integer");
+    }
+    this.slots += capacity - this.totalSlots;
+    this.totalSlots = capacity;
+    this.grantWaiters();
   }
 
-  public async acquire(signal?: AbortSignal): Promise<number | undefined> {
-    while (this.slots < 1) {
-      const didWait = await this.slotCV.wait(signal);
-      if (!didWait) return undefined;
+  private validatePermits(permits: number): void {
+    if (!Number.isInteger(permits) || permits < 1) {
+      throw new RangeError("Semaphore permits must be a positive integer");
     }
+    if (permits > this.totalSlots) {
+      throw new RangeError(
+        `Cannot acquire ${permits} slots from a Semaphore with ${this.totalSlots}`
+      );
+    }
+  }
+
+  // A waiter whose wait was aborted stays in the list until its acquire
+  // resumes, and must not be handed slots in the meantime.
+  private removeAbortedWaiters(): void {
+    for (let i = this.waiters.length - 1; i >= 0; i--) {
+      if (this.waiters[i].cv.waiting === 0) this.waiters.splice(i, 1);
+    }
+  }
+
+  private hasSatisfiableWaiters(): boolean {
+    this.removeAbortedWaiters();
+    return this.waiters.some((waiter) => waiter.permits <= this.totalSlots);
+  }
+
+  // Hands free slots to waiters in policy order, stopping at the first
+  // waiter that needs more slots than are free. Waiters that need more
+  // slots than the capacity are skipped, since they can't be satisfied.
+  private grantWaiters(): void {
+    this.removeAbortedWaiters();
+    for (;;) {
+      const satisfiable = this.waiters.filter(
+        (waiter) => waiter.permits <= this.totalSlots
+      );
+      const waiterIndex = nextWaiterIndex(this.policy, satisfiable);
+      if (waiterIndex < 0) return;
+      const waiter = satisfiable[waiterIndex];
+      if (waiter.permits > this.slots) return;
+      this.slots -= waiter.permits;
+      this.waiters.splice(this.waiters.indexOf(waiter), 1);
+      waiter.granted = true;
+      waiter.cv.notifyOne();
+    }
+  }
 
-    this.slots--;
+  private createHandle(
+    permits: number,
+    attempt: AcquireAttempt | undefined
+  ): number {
     const resultHandle = this.nextHandle++;
-    this.handles.add(resultHandle);
+    this.handles.set(resultHandle, permits);
+    activeDiagnostics()?.acquired(this, resultHandle);
+    attempt?.granted(resultHandle);
     return resultHandle;
   }
 
-  public release(handle: number | undefined): void {
+  /**
+   * Acquires one or more slots
+   *
+   * @param permits - The number of slots to acquire, defaulting to 1
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @param priority - Used by the `"priority"` policy, where higher priorities acquire first
+   * @returns A handle to pass to {@link Semaphore#release}, or undefined if aborted
+   * @throws RangeError if `permits` is not a positive integer no larger than the slot count
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async acquire(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<number | undefined>;
+  public async acquire(
+    permits: number,
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<number | undefined>;
+  public async acquire(
+    permitsOrSignal?: number | AbortSignal | WaitOptions,
+    signalOrPriority?: AbortSignal | WaitOptions | number,
+    maybePriority?: number
+  ): Promise<number | undefined> {
+    const [permits, signalOrOptions, priority] = Semaphore.acquireArguments(
+      permitsOrSignal,
+      signalOrPriority,
+      maybePriority
+    );
+    this.validatePermits(permits);
+
+    const attempt = activeInstrumentation()?.acquireRequested(this);
+    if (!this.hasSatisfiableWaiters() && this.slots >= permits) {
+      this.slots -= permits;
+      return this.createHandle(permits, attempt);
+    }
+
+    const waiter: SlotWaiter = {
+      permits,
+      priority: priority ?? 0,
+      cv: new Condition({}, this),
+      granted: false,
+    };
+    this.waiters.push(waiter);
+    const scope = new WaitScope(signalOrOptions);
+    let didWait = false;
+    try {
+      // Released slots are handed to us directly by grantWaiters.
+      didWait = await waiter.cv.wait(scope.signal);
+    } finally {
+      scope.dispose();
+      if (!didWait) {
+        const waiterIndex = this.waiters.indexOf(waiter);
+        if (waiterIndex >= 0) this.waiters.splice(waiterIndex, 1);
+        // Slots handed to us as the wait ended go to the next waiter.
+        if (waiter.granted) this.slots += permits;
+        // We may have been blocking smaller waiters behind us.
+        this.grantWaiters();
+      }
+    }
+    if (!didWait) {
+      attempt?.aborted(scope.hasTimedOut);
+      scope.throwIfTimedOut();
+      return undefined;
+    }
+
+    return this.createHandle(permits, attempt);
+  }
+
+  private static acquireArguments(
+    permitsOrSignal: number | AbortSignal | WaitOptions | undefined,
+    signalOrPriority: AbortSignal | WaitOptions | number | undefined,
+    maybePriority: number | undefined
+  ): [number, AbortSignal | WaitOptions | undefined, number | undefined] {
+    if (typeof permitsOrSignal === "number") {
+      return [
+        permitsOrSignal,
+        signalOrPriority as AbortSignal | WaitOptions | undefined,
+        maybePriority,
+      ];
+    }
+    return [1, permitsOrSignal, signalOrPriority as number | undefined];
+  }
+
+  /**
+   * Releases slots held by a handle
+   *
+   * @param handle - The handle returned by {@link Semaphore#acquire}
+   * @param permits - The number of slots to release, defaulting to all of the
+   * slots still held by the handle. The handle stays valid until all of its
+   * slots have been released.
+   * @throws RangeError if `permits` exceeds the number of slots the handle holds
+   */
+  public release(handle: number | undefined, permits?: number): void {
     if (handle === undefined) return;
-    if (!this.handles.has(handle)) return;
-    this.handles.delete(handle);
-    this.slots++;
-    this.slotCV.notifyOne();
+    const held = this.handles.get(handle);
+    if (held === undefined) return;
+    const releasing = permits ?? held;
+    if (!Number.isInteger(releasing) || releasing < 1 || releasing > held) {
+      throw new RangeError(
+        `Cannot release ${releasing} slots from a handle holding ${held}`
+      );
+    }
+
+    if (releasing < held) {
+      this.handles.set(handle, held - releasing);
+    } else {
+      this.handles.delete(handle);
+      activeDiagnostics()?.released(this, handle);
+      activeInstrumentation()?.released(this, handle);
+    }
+    this.slots += releasing;
+    this.grantWaiters();
+  }
+
+  /**
+   * Acquires slots as a {@link DisposableHandle}, for use with `await using`
+   *
+   * @returns A handle that releases the slots when disposed, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async slot(
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<DisposableHandle | undefined>;
+  public async slot(
+    permits: number,
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<DisposableHandle | undefined>;
+  public async slot(
+    permitsOrSignal?: number | AbortSignal | WaitOptions,
+    signalOrPriority?: AbortSignal | WaitOptions | number,
+    maybePriority?: number
+  ): Promise<DisposableHandle | undefined> {
+    const [permits, signalOrOptions, priority] = Semaphore.acquireArguments(
+      permitsOrSignal,
+      signalOrPriority,
+      maybePriority
+    );
+    const handle = await this.acquire(permits, signalOrOptions, priority);
+    if (handle === undefined) return undefined;
+    return new DisposableHandle(handle, (h) => this.release(h));
   }
 
   public async withSlot<T>(
     fn: () => Promise<T>,
-    signal?: AbortSignal
-  ): Promise<{ status: "acquired"; result: T } | { status: "aborted" }> {
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
+    return await this.withSlots(1, fn, signalOrOptions, priority);
+  }
+
+  public async withSlots<T>(
+    permits: number,
+    fn: () => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions,
+    priority?: number
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
     let handle: number | undefined = undefined;
     try {
-      handle = await this.acquire(signal);
-      if (!handle) return { status: "aborted" };
+      const acquired = await orTimedOut(
+        this.acquire(permits, signalOrOptions, priority)
+      );
+      if (acquired === "timedOut") return { status: "timedOut" };
+      handle = acquired;
+      if (handle === undefined) return { status: "aborted" };
 
       const result = await fn();
       return { status: "acquired", result };
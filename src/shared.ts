@@ -0,0 +1,434 @@
+import { Diagnosable, NamedOptions, activeDiagnostics } from "./diagnostics";
+import { DisposableHandle } from "./disposable";
+import { AcquireAttempt, activeInstrumentation } from "./instrumentation";
+import { WaitOptions, WaitScope, orTimedOut } from "./timeout";
+
+/**
+ * Waits for `state[index]` to stop being `expected`
+ *
+ * Waking up doesn't guarantee that the value changed, so callers re-check
+ * it in a loop. An abandoned `Atomics.waitAsync` can't be cancelled, and
+ * would swallow a later `Atomics.notify` meant for a real waiter, so an
+ * abort wakes every waiter on the index, letting the others re-check.
+ *
+ * @returns Whether the wait ended without `signal` being aborted
+ */
+async function waitForChange(
+  state: Int32Array,
+  index: number,
+  expected: number,
+  signal: AbortSignal | undefined
+): Promise<boolean> {
+  if (signal?.aborted === true) return false;
+  const result = Atomics.waitAsync(state, index, expected);
+  if (!result.async) return true;
+  // A pending Atomics.waitAsync doesn't keep Node's event loop alive, so
+  // without this, a thread with nothing else to do would exit mid-wait.
+  const keepAlive = setInterval(() => {}, 1 << 30);
+  try {
+    return await new Promise((resolve) => {
+      const resolveByAbort = () => {
+        Atomics.notify(state, index);
+        resolve(false);
+      };
+      signal?.addEventListener("abort", resolveByAbort, { once: true });
+      void result.value.then(() => {
+        signal?.removeEventListener("abort", resolveByAbort);
+        resolve(true);
+      });
+    });
+  } finally {
+    clearInterval(keepAlive);
+  }
+}
+
+const UNLOCKED = 0;
+const LOCKED = 1;
+// Locked, with other threads possibly waiting for it.
+const CONTENDED = 2;
+
+/**
+ * A {@link Mutex} that can be shared between `worker_threads`
+ *
+ * The lock's state lives in a `SharedArrayBuffer`, which can be sent to
+ * other threads with `postMessage` or `workerData`, where passing it to
+ * the constructor gives a SharedMutex for the same lock:
+ *
+ * ```ts
+ * const mutex = new SharedMutex();
+ * new Worker(script, { workerData: { buffer: mutex.buffer } });
+ * // In the worker:
+ * const mutex = new SharedMutex(workerData.buffer);
+ * ```
+ *
+ * Waiting uses `Atomics.waitAsync`, so it never blocks the event loop.
+ * Unlike a Mutex, waiters are not woken in any particular order, and
+ * a handle can only be released through the SharedMutex that acquired it.
+ */
+export class SharedMutex implements Diagnosable {
+  public readonly buffer: SharedArrayBuffer;
+  private readonly state: Int32Array;
+  private heldHandle: number | undefined = undefined;
+  private nextHandle = 0;
+  public readonly name: string | undefined;
+
+  /**
+   * @param buffer - The {@link SharedMutex#buffer} of the SharedMutex to share
+   * the lock of, defaulting to a new unlocked buffer
+   * @throws RangeError if `buffer` is too small to hold a lock
+   */
+  public constructor(buffer?: SharedArrayBuffer, options: NamedOptions = {}) {
+    this.buffer =
+      buffer ?? new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT);
+    if (this.buffer.byteLength < Int32Array.BYTES_PER_ELEMENT) {
+      throw new RangeError("SharedMutex buffer is too small");
+    }
+    this.state = new Int32Array(this.buffer, 0, 1);
+    this.name = options.name;
+  }
+
+  private createHandle(attempt: AcquireAttempt | undefined): number {
+    this.heldHandle = ++this.nextHandle;
+    activeDiagnostics()?.acquired(this, this.heldHandle);
+    attempt?.granted(this.heldHandle);
+    return this.heldHandle;
+  }
+
+  /**
+   * Acquires the lock
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @returns A handle to pass to {@link SharedMutex#release}, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async acquire(
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<number | undefined> {
+    const attempt = activeInstrumentation()?.acquireRequested(this);
+    if (
+      Atomics.compareExchange(this.state, 0, UNLOCKED, LOCKED) === UNLOCKED
+    ) {
+      return this.createHandle(attempt);
+    }
+
+    const scope = new WaitScope(signalOrOptions);
+    try {
+      // Marking the lock contended makes its holder notify us on release.
+      while (Atomics.exchange(this.state, 0, CONTENDED) !== UNLOCKED) {
+        if (!(await waitForChange(this.state, 0, CONTENDED, scope.signal))) {
+          attempt?.aborted(scope.hasTimedOut);
+          scope.throwIfTimedOut();
+          return undefined;
+        }
+      }
+    } finally {
+      scope.dispose();
+    }
+    return this.createHandle(attempt);
+  }
+
+  public release(handle: number | undefined): void {
+    if (handle === undefined) return;
+    if (this.heldHandle !== handle) return;
+    this.heldHandle = undefined;
+    activeDiagnostics()?.released(this, handle);
+    activeInstrumentation()?.released(this, handle);
+    if (Atomics.sub(this.state, 0, 1) !== LOCKED) {
+      Atomics.store(this.state, 0, UNLOCKED);
+      Atomics.notify(this.state, 0, 1);
+    }
+  }
+
+  /**
+   * Acquires the lock as a {@link DisposableHandle}, for use with `await using`
+   *
+   * @returns A handle that releases the lock when disposed, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async lock(
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<DisposableHandle | undefined> {
+    const handle = await this.acquire(signalOrOptions);
+    if (handle === undefined) return undefined;
+    return new DisposableHandle(handle, (h) => this.release(h));
+  }
+
+  public async withLock<T>(
+    fn: () => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
+    let lockHandle: number | undefined = undefined;
+    try {
+      const acquired = await orTimedOut(this.acquire(signalOrOptions));
+      if (acquired === "timedOut") return { status: "timedOut" };
+      lockHandle = acquired;
+      if (lockHandle === undefined) return { status: "aborted" };
+
+      const result = await fn();
+      return { status: "acquired", result };
+    } finally {
+      this.release(lockHandle);
+    }
+  }
+}
+
+const AVAILABLE = 0;
+const CAPACITY = 1;
+
+/**
+ * A {@link Semaphore} that can be shared between `worker_threads`
+ *
+ * Like {@link SharedMutex}, the slots live in a `SharedArrayBuffer` that
+ * can be sent to other threads, where passing it to the constructor gives
+ * a SharedSemaphore for the same slots. Waiters are not woken in any
+ * particular order, and handles can only be released through the
+ * SharedSemaphore that acquired them.
+ */
+export class SharedSemaphore implements Diagnosable {
+  public readonly buffer: SharedArrayBuffer;
+  private readonly state: Int32Array;
+  // Maps each outstanding handle to the number of slots it holds.
+  private readonly handles: Map<number, number> = new Map();
+  private nextHandle = 0;
+  public readonly name: string | undefined;
+
+  /**
+   * @param slotsOrBuffer - The number of slots that can be held at once,
+   * defaulting to 1, or the {@link SharedSemaphore#buffer} of the
+   * SharedSemaphore to share the slots of
+   * @throws RangeError if the number of slots is not a positive integer,
+   * or the buffer is too small to hold a semaphore
+   */
+  public constructor(
+    slotsOrBuffer: number | SharedArrayBuffer = 1,
+    options: NamedOptions = {}
+  ) {
+    if (typeof slotsOrBuffer === "number") {
+      if (!Number.isInteger(slotsOrBuffer) || slotsOrBuffer < 1) {
+        throw new RangeError(
+          "SharedSemaphore slots must be a positive integer"
+        );
+      }
+      this.buffer = new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT);
+      this.state = new Int32Array(this.buffer, 0, 2);
+      this.state[AVAILABLE] = slotsOrBuffer;
+      this.state[CAPACITY] = slotsOrBuffer;
+    } else {
+      if (slotsOrBuffer.byteLength < 2 * Int32Array.BYTES_PER_ELEMENT) {
+        throw new RangeError("SharedSemaphore buffer is too small");
+      }
+      this.buffer = slotsOrBuffer;
+      this.state = new Int32Array(this.buffer, 0, 2);
+    }
+    this.name = options.name;
+  }
+
+  /**
+   * The number of slots that are not currently held, by any thread
+   */
+  public get available(): number {
+    return Atomics.load(this.state, AVAILABLE);
+  }
+
+  /**
+   * The number of slots that can be held at once
+   */
+  public get capacity(): number {
+    return Atomics.load(this.state, CAPACITY);
+  }
+
+  private validatePermits(permits: number): void {
+    if (!Number.isInteger(permits) || permits < 1) {
+      throw new RangeError(
+        "SharedSemaphore permits must be a positive integer"
+      );
+    }
+    if (permits > this.capacity) {
+      throw new RangeError(
+        `Cannot acquire ${permits} slots from a SharedSemaphore with ${this.capacity}`
+      );
+    }
+  }
+
+  // Takes the slots if enough are free, retrying when another thread
+  // changes the count between reading it and taking from it.
+  private tryTake(permits: number): boolean {
+    for (;;) {
+      const available = Atomics.load(this.state, AVAILABLE);
+      if (available < permits) return false;
+      const previous = Atomics.compareExchange(
+        this.state,
+        AVAILABLE,
+        available,
+        available - permits
+      );
+      if (previous === available) return true;
+    }
+  }
+
+  private createHandle(
+    permits: number,
+    attempt: AcquireAttempt | undefined
+  ): number {
+    const handle = this.nextHandle++;
+    this.handles.set(handle, permits);
+    activeDiagnostics()?.acquired(this, handle);
+    attempt?.granted(handle);
+    return handle;
+  }
+
+  /**
+   * Acquires one or more slots
+   *
+   * @param permits - The number of slots to acquire, defaulting to 1
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @returns A handle to pass to {@link SharedSemaphore#release}, or undefined if aborted
+   * @throws RangeError if `permits` is not a positive integer no larger than the slot count
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async acquire(
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<number | undefined>;
+  public async acquire(
+    permits: number,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<number | undefined>;
+  public async acquire(
+    permitsOrSignal?: number | AbortSignal | WaitOptions,
+    maybeSignal?: AbortSignal | WaitOptions
+  ): Promise<number | undefined> {
+    const [permits, signalOrOptions] = SharedSemaphore.acquireArguments(
+      permitsOrSignal,
+      maybeSignal
+    );
+    this.validatePermits(permits);
+    const attempt = activeInstrumentation()?.acquireRequested(this);
+    if (this.tryTake(permits)) return this.createHandle(permits, attempt);
+
+    const scope = new WaitScope(signalOrOptions);
+    try {
+      while (!this.tryTake(permits)) {
+        const available = Atomics.load(this.state, AVAILABLE);
+        if (available >= permits) continue;
+        if (
+          !(await waitForChange(this.state, AVAILABLE, available, scope.signal))
+        ) {
+          attempt?.aborted(scope.hasTimedOut);
+          scope.throwIfTimedOut();
+          return undefined;
+        }
+      }
+    } finally {
+      scope.dispose();
+    }
+    return this.createHandle(permits, attempt);
+  }
+
+  private static acquireArguments(
+    permitsOrSignal: number | AbortSignal | WaitOptions | undefined,
+    maybeSignal: AbortSignal | WaitOptions | undefined
+  ): [number, AbortSignal | WaitOptions | undefined] {
+    if (typeof permitsOrSignal === "number") {
+      return [permitsOrSignal, maybeSignal];
+    }
+    return [1, permitsOrSignal];
+  }
+
+  /**
+   * Releases slots held by a handle
+   *
+   * @param handle - The handle returned by {@link SharedSemaphore#acquire}
+   * @param permits - The number of slots to release, defaulting to all of the
+   * slots still held by the handle. The handle stays valid until all of its
+   * slots have been released.
+   * @throws RangeError if `permits` exceeds the number of slots the handle holds
+   */
+  public release(handle: number | undefined, permits?: number): void {
+    if (handle === undefined) return;
+    const held = this.handles.get(handle);
+    if (held === undefined) return;
+    const releasing = permits ?? held;
+    if (!Number.isInteger(releasing) || releasing < 1 || releasing > held) {
+      throw new RangeError(
+        `Cannot release ${releasing} slots from a handle holding ${held}`
+      );
+    }
+
+    if (releasing < held) {
+      this.handles.set(handle, held - releasing);
+    } else {
+      this.handles.delete(handle);
+      activeDiagnostics()?.released(this, handle);
+      activeInstrumentation()?.released(this, handle);
+    }
+    Atomics.add(this.state, AVAILABLE, releasing);
+    // Waiters may need different numbers of slots, so every one re-checks.
+    Atomics.notify(this.state, AVAILABLE);
+  }
+
+  /**
+   * Acquires slots as a {@link DisposableHandle}, for use with `await using`
+   *
+   * @returns A handle that releases the slots when disposed, or undefined if aborted
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async slot(
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<DisposableHandle | undefined>;
+  public async slot(
+    permits: number,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<DisposableHandle | undefined>;
+  public async slot(
+    permitsOrSignal?: number | AbortSignal | WaitOptions,
+    maybeSignal?: AbortSignal | WaitOptions
+  ): Promise<DisposableHandle | undefined> {
+    const [permits, signalOrOptions] = SharedSemaphore.acquireArguments(
+      permitsOrSignal,
+      maybeSignal
+    );
+    const handle = await this.acquire(permits, signalOrOptions);
+    if (handle === undefined) return undefined;
+    return new DisposableHandle(handle, (h) => this.release(h));
+  }
+
+  public async withSlot<T>(
+    fn: () => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
+    return await this.withSlots(1, fn, signalOrOptions);
+  }
+
+  public async withSlots<T>(
+    permits: number,
+    fn: () => Promise<T>,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<
+    | { status: "acquired"; result: T }
+    | { status: "aborted" }
+    | { status: "timedOut" }
+  > {
+    let handle: number | undefined = undefined;
+    try {
+      const acquired = await orTimedOut(this.acquire(permits, signalOrOptions));
+      if (acquired === "timedOut") return { status: "timedOut" };
+      handle = acquired;
+      if (handle === undefined) return { status: "aborted" };
+
+      const result = await fn();
+      return { status: "acquired", result };
+    } finally {
+      this.release(handle);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { WaitOptions, WaitScope } from "./timeout";
+
+/**
+ * Thrown to a caller of {@link SingleFlight#do} or {@link Once#do} whose
+ * signal was aborted before the shared work finished
+ */
+export class CallCancelledException extends Error {}
+
+interface Flight<V> {
+  readonly promise: Promise<V>;
+  readonly controller: AbortController;
+  callers: number;
+}
+
+// Settles like `promise`, unless `signal` aborts first.
+function untilAborted<V>(
+  promise: Promise<V>,
+  signal: AbortSignal | undefined
+): Promise<V> {
+  if (signal === undefined) return promise;
+  return new Promise((resolve, reject) => {
+    const rejectByAbort = () => reject(new CallCancelledException());
+    if (signal.aborted) return rejectByAbort();
+    signal.addEventListener("abort", rejectByAbort, { once: true });
+    promise
+      .finally(() => signal.removeEventListener("abort", rejectByAbort))
+      .then(resolve, reject);
+  });
+}
+
+/**
+ * Coalesces concurrent calls for the same key into one call
+ *
+ * Like Go's `x/sync/singleflight`, concurrent calls to
+ * {@link SingleFlight#do} with the same key share the result of the first
+ * call's function, instead of each doing the same work. Once that work
+ * settles, the next call for the key starts it afresh.
+ *
+ * Each caller can stop waiting by aborting its own signal. The shared work
+ * carries on for everyone else, and is only cancelled, through the signal
+ * given to the function, once every caller has gone away.
+ */
+export class SingleFlight<K, V> {
+  private readonly flights = new Map<K, Flight<V>>();
+
+  /**
+   * The number of keys with work in flight
+   */
+  public get inFlight(): number {
+    return this.flights.size;
+  }
+
+  /**
+   * The number of callers waiting on the work in flight for `key`
+   */
+  public callers(key: K): number {
+    return this.flights.get(key)?.callers ?? 0;
+  }
+
+  /**
+   * Forgets the work in flight for `key`, so that the next call starts
+   * new work instead of sharing it
+   *
+   * Callers already waiting still receive the forgotten work's result.
+   */
+  public forget(key: K): void {
+    this.flights.delete(key);
+  }
+
+  private start(key: K, fn: (signal: AbortSignal) => Promise<V>): Flight<V> {
+    const controller = new AbortController();
+    const flight: Flight<V> = {
+      promise: (async () => await fn(controller.signal))(),
+      controller,
+      callers: 0,
+    };
+    const land = () => {
+      if (this.flights.get(key) === flight) this.flights.delete(key);
+    };
+    flight.promise.then(land, land);
+    this.flights.set(key, flight);
+    return flight;
+  }
+
+  /**
+   * Calls `fn`, unless a call for `key` is already in flight, and shares its result
+   *
+   * @param key - Identifies the work, so that calls with equal keys share it
+   * @param fn - Does the work. Its signal is aborted if every caller waiting
+   * on it aborts.
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline, that stops this caller waiting
+   * @returns The shared result of the work
+   * @throws CallCancelledException if the optional `signal` was aborted first
+   * @throws TimeoutException if the timeout or deadline passed first
+   * @throws The error thrown by the shared work
+   */
+  public async do(
+    key: K,
+    fn: (signal: AbortSignal) => Promise<V>,
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<V> {
+    const scope = new WaitScope(signalOrOptions);
+    if (scope.signal?.aborted === true) {
+      scope.dispose();
+      scope.throwIfTimedOut();
+      throw new CallCancelledException();
+    }
+
+    const flight = this.flights.get(key) ?? this.start(key, fn);
+    flight.callers++;
+    try {
+      return await untilAborted(flight.promise, scope.signal);
+    } catch (e: unknown) {
+      if (e instanceof CallCancelledException) scope.throwIfTimedOut();
+      throw e;
+    } finally {
+      scope.dispose();
+      flight.callers--;
+      if (flight.callers === 0 && this.flights.get(key) === flight) {
+        // Everyone waiting has gone away, so the work is no longer wanted.
+        this.flights.delete(key);
+        flight.controller.abort();
+      }
+    }
+  }
+}
@@ -1,15 +1,25 @@
+import { Clock, systemClock } from "./clock";
+
+/**
+ * Waits for `sleepTime` milliseconds
+ *
+ * @param signal - An optional `AbortSignal` that ends the sleep early
+ * @param clock - The clock to measure time with, defaulting to the {@link systemClock}
+ * @returns Whether the full time passed. If false, the sleep was aborted.
+ */
 export async function sleep(
   sleepTime: number,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  clock: Clock = systemClock
 ): Promise<boolean> {
   if (signal?.aborted === true) return false;
   return new Promise((resolve) => {
-    let successTimeout: NodeJS.Timeout | undefined = undefined;
+    let cancelTimer: (() => void) | undefined = undefined;
     let resolved = false;
     const cleanupOnSignal = () => {
-      if (successTimeout !== undefined) {
-        clearTimeout(successTimeout);
-        successTimeout = undefined;
+      if (cancelTimer !== undefined) {
+        cancelTimer();
+        cancelTimer = undefined;
       }
       if (!resolved) {
         resolved = true;
@@ -18,7 +28,7 @@ export async function sleep(
     };
 
     signal?.addEventListener("abort", cleanupOnSignal, { once: true });
-    successTimeout = setTimeout(() => {
+    cancelTimer = clock.schedule(() => {
       signal?.removeEventListener("abort", cleanupOnSignal);
       if (!resolved) {
         resolved = true;
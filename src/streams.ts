@@ -0,0 +1,158 @@
+import { Readable, ReadableOptions, Writable, WritableOptions } from "stream";
+import {
+  Channel,
+  ChannelClosedException,
+  ChannelFromOptions,
+  ReadCancelledException,
+  WriteCancelledException,
+} from "./channel";
+
+/**
+ * Creates a channel of the chunks read from a Node `Readable`
+ *
+ * Like {@link Channel.fromReadable}, each chunk is only read once the
+ * previous one has been written to the channel, so slow readers of the
+ * channel pause the stream. The channel is closed once the stream ends,
+ * or closed with the stream's error as its reason if the stream fails.
+ * Closing the channel destroys the stream, even while the stream has no
+ * chunk ready, once the channel's buffer has been drained.
+ *
+ * @param options - Options for the new channel, and a `signal` that
+ * destroys the stream and closes the channel when aborted
+ */
+export function fromNodeReadable<T = unknown>(
+  readable: Readable,
+  options: ChannelFromOptions = {}
+): Channel<T> {
+  const { signal, ...channelOptions } = options;
+  const channel = new Channel<T>(channelOptions);
+  void writeFromNodeReadable(channel, readable, signal);
+  return channel;
+}
+
+async function writeFromNodeReadable<T>(
+  channel: Channel<T>,
+  readable: Readable,
+  signal: AbortSignal | undefined
+): Promise<void> {
+  const destroy = () => readable.destroy();
+  signal?.addEventListener("abort", destroy, { once: true });
+  // Iterating an idle stream would otherwise wait for its next chunk
+  // before finding the channel closed.
+  void channel.closed.then(destroy);
+  try {
+    // Leaving the loop early destroys the stream.
+    for await (const chunk of readable) {
+      await channel.write(chunk as T, signal);
+    }
+    channel.close();
+  } catch (e: unknown) {
+    if (
+      e instanceof ChannelClosedException ||
+      e instanceof WriteCancelledException ||
+      signal?.aborted === true
+    ) {
+      channel.close();
+    } else {
+      channel.close(e);
+    }
+  } finally {
+    signal?.removeEventListener("abort", destroy);
+  }
+}
+
+// Node streams are destroyed with errors, so other reasons are wrapped.
+function asError(reason: unknown): Error {
+  return reason instanceof Error ? reason : new Error(String(reason));
+}
+
+/**
+ * Creates a Node `Readable` of the values read from a channel
+ *
+ * The stream is in object mode, and only reads from the channel when its
+ * consumer does, since its `highWaterMark` defaults to 0. The stream ends
+ * once the channel is closed and drained, or is destroyed with the reason
+ * passed to {@link Channel#close}. Destroying the stream closes the
+ * channel, so that writers stop producing values.
+ *
+ * A `Readable` treats a `null` chunk as its end, so reading `null` from
+ * the channel destroys the stream with a `TypeError` instead.
+ *
+ * @param options - Passed on to the `Readable`, except for `read` and `destroy`
+ */
+export function toNodeReadable<T>(
+  channel: Channel<T>,
+  options: ReadableOptions = {}
+): Readable {
+  const controller = new AbortController();
+  return new Readable({
+    objectMode: true,
+    highWaterMark: 0,
+    ...options,
+    read() {
+      channel.read(controller.signal).then(
+        (value) => {
+          if (value !== null) {
+            this.push(value);
+            return;
+          }
+          this.destroy(
+            new TypeError("A channel value of null can't be read as a chunk")
+          );
+        },
+        (e: unknown) => {
+          if (e instanceof ReadCancelledException) return;
+          if (e instanceof ChannelClosedException) {
+            this.push(null);
+          } else {
+            this.destroy(asError(e));
+          }
+        }
+      );
+    },
+    destroy(error, callback) {
+      controller.abort();
+      channel.close();
+      callback(error);
+    },
+  });
+}
+
+/**
+ * Creates a Node `Writable` that writes to a channel
+ *
+ * The stream is in object mode, and each of its writes completes when the
+ * matching {@link Channel#write} does, so a full channel applies
+ * backpressure to the stream. Ending the stream closes the channel, and
+ * destroying it with an error closes the channel with that error as its
+ * reason, which readers then receive instead of a
+ * {@link ChannelClosedException}.
+ *
+ * @param options - Passed on to the `Writable`, except for `write`, `final` and `destroy`
+ */
+export function toNodeWritable<T>(
+  channel: Channel<T>,
+  options: WritableOptions = {}
+): Writable {
+  const controller = new AbortController();
+  return new Writable({
+    objectMode: true,
+    highWaterMark: 1,
+    ...options,
+    write(chunk: T, _encoding, callback) {
+      channel.write(chunk, controller.signal).then(
+        () => callback(),
+        (e: unknown) => callback(asError(e))
+      );
+    },
+    final(callback) {
+      channel.close();
+      callback();
+    },
+    destroy(error, callback) {
+      controller.abort();
+      channel.close(error ?? undefined);
+      callback(error);
+    },
+  });
+}
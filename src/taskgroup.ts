@@ -0,0 +1,198 @@
+import { ReadCancelledException, WriteCancelledException } from "./channel";
+import { Semaphore } from "./semaphore";
+
+/**
+ * Thrown when spawning a task into a {@link TaskGroup} that isn't running
+ */
+export class TaskGroupClosedException extends Error {}
+
+export interface TaskGroupOptions {
+  /**
+   * Cancels every task in the group when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * The most tasks that may run at once, defaulting to no limit
+   */
+  concurrency?: number;
+}
+
+/**
+ * A task run by a {@link TaskGroup}
+ *
+ * @param signal - Aborted when the group is cancelled, which the task should
+ * respect by finishing promptly
+ */
+export type Task = (signal: AbortSignal) => Promise<unknown>;
+
+/**
+ * Runs a group of tasks that succeed or fail together
+ *
+ * Like Go's `errgroup` or Trio's nurseries, {@link TaskGroup#run} doesn't
+ * return until every task spawned into the group has finished, so no task
+ * outlives it. The first task to fail cancels all of the others through
+ * the signal each task is given, and every failure is reported together
+ * in an `AggregateError`.
+ *
+ * ```ts
+ * await new TaskGroup({ concurrency: 4 }).run(async (group) => {
+ *   for (const url of urls) {
+ *     group.spawn((signal) => download(url, signal));
+ *   }
+ * });
+ * ```
+ *
+ * A TaskGroup can only be run once.
+ */
+export class TaskGroup {
+  private readonly controller = new AbortController();
+  private readonly parentSignal: AbortSignal | undefined;
+  private readonly abortOnParentSignal = () => this.cancel();
+  private readonly semaphore: Semaphore | undefined;
+  private readonly pending = new Set<Promise<void>>();
+  private readonly failures: unknown[] = [];
+  private state: "idle" | "running" | "finished" = "idle";
+
+  /**
+   * @throws RangeError if `concurrency` is not a positive integer
+   */
+  public constructor(options: TaskGroupOptions = {}) {
+    this.parentSignal = options.signal;
+    if (options.concurrency !== undefined) {
+      if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+        throw new RangeError(
+          "TaskGroup concurrency must be a positive integer"
+        );
+      }
+      this.semaphore = new Semaphore(options.concurrency, { policy: "fifo" });
+    }
+  }
+
+  /**
+   * Aborted once the group has been cancelled, whether by a failing task,
+   * by {@link TaskGroup#cancel}, or by the group's own `signal`
+   */
+  public get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * The number of spawned tasks that have not yet finished, including
+   * those still waiting for the concurrency limit
+   */
+  public get running(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Cancels every task in the group
+   *
+   * Tasks that are still waiting for the concurrency limit never start.
+   */
+  public cancel(): void {
+    this.controller.abort();
+  }
+
+  /**
+   * Starts a task within the group
+   *
+   * Tasks may spawn further tasks, for as long as the group is running.
+   *
+   * @throws TaskGroupClosedException if {@link TaskGroup#run} hasn't been
+   * called yet or has already returned
+   */
+  public spawn(task: Task): void {
+    if (this.state !== "running") {
+      throw new TaskGroupClosedException(
+        "Tasks can only be spawned while the TaskGroup is running"
+      );
+    }
+    const running = this.runTask(task).finally(() =>
+      this.pending.delete(running)
+    );
+    this.pending.add(running);
+  }
+
+  private async runTask(task: Task): Promise<void> {
+    const signal = this.controller.signal;
+    try {
+      if (this.semaphore === undefined) {
+        await task(signal);
+      } else {
+        await this.semaphore.withSlot(() => task(signal), signal);
+      }
+    } catch (e: unknown) {
+      this.fail(e);
+    }
+  }
+
+  private fail(error: unknown): void {
+    if (this.isCancellation(error)) return;
+    this.failures.push(error);
+    this.cancel();
+  }
+
+  // Once the group has been cancelled, tasks are expected to throw whatever
+  // their cancelled operations threw, and those errors aren't failures.
+  private isCancellation(error: unknown): boolean {
+    const signal = this.controller.signal;
+    if (!signal.aborted) return false;
+    return (
+      error === signal.reason ||
+      error instanceof ReadCancelledException ||
+      error instanceof WriteCancelledException ||
+      (error instanceof Error && error.name === "AbortError")
+    );
+  }
+
+  /**
+   * Runs `body`, then waits for every task spawned into the group to finish
+   *
+   * `body` is treated like one of the group's tasks, so if it throws, the
+   * other tasks are cancelled.
+   *
+   * @param body - Spawns the group's tasks
+   * @returns The value returned by `body`
+   * @throws AggregateError of every failure if `body` or any task failed
+   * @throws TaskGroupClosedException if the group has already been run
+   * @throws The error `body` threw when cancelled, if the group was
+   * cancelled without any task failing
+   */
+  public async run<T>(body: (group: TaskGroup) => Promise<T>): Promise<T> {
+    if (this.state !== "idle") {
+      throw new TaskGroupClosedException("A TaskGroup can only be run once");
+    }
+    this.state = "running";
+    this.parentSignal?.addEventListener("abort", this.abortOnParentSignal, {
+      once: true,
+    });
+    if (this.parentSignal?.aborted === true) this.cancel();
+
+    let outcome:
+      | { status: "returned"; result: T }
+      | { status: "threw"; error: unknown };
+    try {
+      outcome = { status: "returned", result: await body(this) };
+    } catch (e: unknown) {
+      outcome = { status: "threw", error: e };
+      this.fail(e);
+    }
+
+    try {
+      // Finishing tasks may have spawned new ones.
+      while (this.pending.size > 0) await Promise.all(this.pending);
+    } finally {
+      this.state = "finished";
+      this.parentSignal?.removeEventListener("abort", this.abortOnParentSignal);
+    }
+
+    if (this.failures.length > 0) {
+      throw new AggregateError(
+        this.failures,
+        `${this.failures.length} of the TaskGroup's tasks failed`
+      );
+    }
+    if (outcome.status === "threw") throw outcome.error;
+    return outcome.result;
+  }
+}
@@ -0,0 +1,137 @@
+import { Clock, ClockOptions, systemClock } from "./clock";
+
+/**
+ * Thrown when a blocking call gives up because its `timeoutMs` or
+ * `deadline` passed, as opposed to its `signal` being aborted
+ */
+export class TimeoutException extends Error {}
+
+/**
+ * Options accepted by every blocking call in place of a bare `AbortSignal`
+ *
+ * When both `timeoutMs` and `deadline` are given, whichever passes first
+ * ends the wait. A call that gives up because of either rejects with a
+ * {@link TimeoutException}, while a call whose `signal` is aborted keeps
+ * reporting the abort as it always has.
+ */
+export interface WaitOptions extends ClockOptions {
+  /** Cancels the wait when aborted */
+  signal?: AbortSignal;
+  /** Gives up once this many milliseconds have passed */
+  timeoutMs?: number;
+  /** Gives up once the clock reaches this time, in milliseconds */
+  deadline?: number;
+}
+
+/**
+ * Combines the signal and timeouts of {@link WaitOptions} into one `AbortSignal`
+ *
+ * Blocking calls wait on {@link WaitScope#signal}, and call
+ * {@link WaitScope#throwIfTimedOut} once the wait has been aborted to report
+ * a timeout distinctly. The scope must be disposed once the wait is over.
+ */
+export class WaitScope {
+  public readonly signal: AbortSignal | undefined;
+  private readonly externalSignal: AbortSignal | undefined;
+  private readonly abortOnExternalSignal: () => void = () => {};
+  private cancelTimer: (() => void) | undefined = undefined;
+  private timedOut = false;
+  private readonly timeoutMessage: string = "";
+
+  /**
+   * @param signalOrOptions - An `AbortSignal`, or {@link WaitOptions}
+   * @param defaultClock - Measures the timeout when the options don't name a clock
+   */
+  public constructor(
+    signalOrOptions: AbortSignal | WaitOptions | undefined,
+    defaultClock: Clock = systemClock
+  ) {
+    const options = waitOptionsOf(signalOrOptions);
+    this.externalSignal = options.signal;
+    const clock = options.clock ?? defaultClock;
+
+    let delayMs = options.timeoutMs ?? Infinity;
+    if (options.deadline !== undefined) {
+      delayMs = Math.min(delayMs, options.deadline - clock.now());
+    }
+    if (delayMs === Infinity) {
+      // Without a timeout, the caller's signal can be used as is.
+      this.signal = options.signal;
+      return;
+    }
+
+    const controller = new AbortController();
+    this.signal = controller.signal;
+    this.timeoutMessage =
+      options.timeoutMs !== undefined && delayMs === options.timeoutMs
+        ? `Timed out after ${options.timeoutMs}ms`
+        : `Deadline of ${options.deadline} passed`;
+
+    if (options.signal?.aborted === true) {
+      controller.abort();
+      return;
+    }
+    this.abortOnExternalSignal = () => controller.abort();
+    options.signal?.addEventListener("abort", this.abortOnExternalSignal, {
+      once: true,
+    });
+
+    const timeOut = () => {
+      this.timedOut = true;
+      controller.abort();
+    };
+    if (delayMs <= 0) {
+      timeOut();
+    } else {
+      this.cancelTimer = clock.schedule(timeOut, delayMs);
+    }
+  }
+
+  public get hasTimedOut(): boolean {
+    return this.timedOut;
+  }
+
+  /**
+   * @throws TimeoutException if the timeout or deadline has passed
+   */
+  public throwIfTimedOut(): void {
+    if (this.timedOut) throw new TimeoutException(this.timeoutMessage);
+  }
+
+  public dispose(): void {
+    this.cancelTimer?.();
+    this.cancelTimer = undefined;
+    this.externalSignal?.removeEventListener(
+      "abort",
+      this.abortOnExternalSignal
+    );
+  }
+}
+
+/**
+ * Normalizes a blocking call's trailing `AbortSignal` or {@link WaitOptions}
+ */
+export function waitOptionsOf(
+  signalOrOptions: AbortSignal | WaitOptions | undefined
+): WaitOptions {
+  if (signalOrOptions instanceof AbortSignal) {
+    return { signal: signalOrOptions };
+  }
+  return signalOrOptions ?? {};
+}
+
+/**
+ * Resolves to `"timedOut"` where `promise` would reject with a {@link TimeoutException}
+ *
+ * Used by helpers like {@link Mutex#withLock} to report a `"timedOut"` status.
+ */
+export async function orTimedOut<T>(
+  promise: Promise<T>
+): Promise<T | "timedOut"> {
+  try {
+    return await promise;
+  } catch (e: unknown) {
+    if (e instanceof TimeoutException) return "timedOut";
+    throw e;
+  }
+}
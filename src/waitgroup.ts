@@ -0,0 +1,80 @@
+import { Condition } from "./condition";
+import { Diagnosable, NamedOptions } from "./diagnostics";
+import { WaitOptions } from "./timeout";
+
+export interface WaitGroupOptions extends NamedOptions {}
+
+/**
+ * Waits for a collection of tasks to finish, like Go's `sync.WaitGroup`
+ *
+ * Each task is counted with {@link WaitGroup#add} before it starts, and
+ * calls {@link WaitGroup#done} when it finishes. Calls to
+ * {@link WaitGroup#wait} block until the count returns to zero, after
+ * which the WaitGroup can be reused.
+ */
+export class WaitGroup implements Diagnosable {
+  private counter = 0;
+  private readonly zeroCV: Condition;
+  public readonly name: string | undefined;
+
+  public constructor(options: WaitGroupOptions = {}) {
+    this.zeroCV = new Condition({}, this);
+    this.name = options.name;
+  }
+
+  /**
+   * The number of tasks that have been added but are not yet done
+   */
+  public get count(): number {
+    return this.counter;
+  }
+
+  /**
+   * The number of outstanding calls to {@link WaitGroup#wait}
+   */
+  public get waiting(): number {
+    return this.zeroCV.waiting;
+  }
+
+  /**
+   * Adds `delta` to the count, waking every waiter if it reaches zero
+   *
+   * @param delta - The number of tasks to add, defaulting to 1. This may be
+   * negative, in which case it marks that many tasks as done.
+   * @throws RangeError if `delta` is not an integer, or would make the count negative
+   */
+  public add(delta = 1): void {
+    if (!Number.isInteger(delta)) {
+      throw new RangeError("WaitGroup delta must be an integer");
+    }
+    if (this.counter + delta < 0) {
+      throw new RangeError("WaitGroup count cannot become negative");
+    }
+    this.counter += delta;
+    if (this.counter === 0) this.zeroCV.notifyAll();
+  }
+
+  /**
+   * Marks one task as done
+   *
+   * @throws RangeError if no tasks are outstanding
+   */
+  public done(): void {
+    this.add(-1);
+  }
+
+  /**
+   * Waits until the count is zero
+   *
+   * @param signalOrOptions - An optional `AbortSignal`, or {@link WaitOptions}
+   * with a timeout or deadline
+   * @returns Whether the count reached zero. If false, the wait has been aborted.
+   * @throws TimeoutException if the timeout or deadline passed first
+   */
+  public async wait(
+    signalOrOptions?: AbortSignal | WaitOptions
+  ): Promise<boolean> {
+    if (this.counter === 0) return true;
+    return await this.zeroCV.wait(signalOrOptions);
+  }
+}
@@ -0,0 +1,127 @@
+import { BrokenBarrierException, CyclicBarrier } from "../src/barrier";
+import { VirtualClock } from "../src/clock";
+import { sleep } from "../src/sleep";
+import { TimeoutException } from "../src/timeout";
+
+describe("cyclic barriers", () => {
+  it("releases every party once all have arrived", async () => {
+    const barrier = new CyclicBarrier(3);
+    const first = barrier.wait();
+    const second = barrier.wait();
+    await sleep(1);
+    expect(barrier.waiting).toEqual(2);
+
+    const indices = await Promise.all([first, second, barrier.wait()]);
+    expect(indices).toEqual([2, 1, 0]);
+    expect(barrier.waiting).toEqual(0);
+  });
+
+  it("can be reused for every phase", async () => {
+    const barrier = new CyclicBarrier(2);
+    const phases: string[] = [];
+    const party = async (name: string) => {
+      for (let phase = 0; phase < 3; phase++) {
+        phases.push(`${name}${phase}`);
+        await barrier.wait();
+      }
+    };
+    await Promise.all([party("a"), party("b")]);
+    // Nobody starts a phase before everyone has finished the previous one.
+    expect(phases.map((phase) => phase[1])).toEqual([
+      "0",
+      "0",
+      "1",
+      "1",
+      "2",
+      "2",
+    ]);
+  });
+
+  it("runs the barrier action before releasing anyone", async () => {
+    const events: string[] = [];
+    const barrier = new CyclicBarrier(2, {
+      action: async () => {
+        await sleep(1);
+        events.push("action");
+      },
+    });
+    await Promise.all([
+      barrier.wait().then(() => events.push("first")),
+      barrier.wait().then(() => events.push("last")),
+    ]);
+    expect(events[0]).toEqual("action");
+  });
+
+  it("holds parties arriving during the action for the next phase", async () => {
+    let phase = 0;
+    const barrier = new CyclicBarrier(2, {
+      action: async () => {
+        await sleep(5);
+        phase++;
+      },
+    });
+    const first = barrier.wait();
+    const last = barrier.wait();
+    await sleep(1);
+
+    const early = barrier.wait().then((index) => ({ index, phase }));
+    expect(await Promise.all([first, last])).toEqual([1, 0]);
+    await sleep(1);
+    expect(barrier.waiting).toEqual(1);
+
+    // The early party is only released by the second phase's action.
+    expect(await barrier.wait()).toEqual(0);
+    expect(await early).toEqual({ index: 1, phase: 2 });
+  });
+
+  it("breaks when a waiting party is aborted", async () => {
+    const barrier = new CyclicBarrier(3);
+    const controller = new AbortController();
+    const other = barrier.wait();
+    const aborted = barrier.wait(controller.signal);
+    controller.abort();
+
+    expect(await aborted).toBeUndefined();
+    await expect(other).rejects.toThrow(BrokenBarrierException);
+    expect(barrier.isBroken).toBe(true);
+    await expect(barrier.wait()).rejects.toThrow(BrokenBarrierException);
+
+    barrier.reset();
+    expect(barrier.isBroken).toBe(false);
+  });
+
+  it("breaks when a waiting party times out", async () => {
+    const clock = new VirtualClock();
+    const barrier = new CyclicBarrier(2);
+    const timedOut = expect(
+      barrier.wait({ timeoutMs: 10, clock })
+    ).rejects.toThrow(TimeoutException);
+    await clock.advance(10);
+    await timedOut;
+    expect(barrier.isBroken).toBe(true);
+  });
+
+  it("breaks when the barrier action throws", async () => {
+    const barrier = new CyclicBarrier(2, {
+      action: () => {
+        throw new Error("action failed");
+      },
+    });
+    const first = barrier.wait();
+    await expect(barrier.wait()).rejects.toThrow("action failed");
+    await expect(first).rejects.toThrow(BrokenBarrierException);
+  });
+
+  it("breaks waiting parties on reset", async () => {
+    const barrier = new CyclicBarrier(2);
+    const waiting = barrier.wait();
+    barrier.reset();
+    await expect(waiting).rejects.toThrow(BrokenBarrierException);
+    expect(barrier.isBroken).toBe(false);
+    expect(await Promise.all([barrier.wait(), barrier.wait()])).toEqual([1, 0]);
+  });
+
+  it("rejects invalid party counts", () => {
+    expect(() => new CyclicBarrier(0)).toThrow(RangeError);
+  });
+});
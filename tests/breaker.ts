@@ -0,0 +1,138 @@
+import { CircuitBreaker, CircuitOpenException } from "../src/breaker";
+import { Channel } from "../src/channel";
+import { VirtualClock } from "../src/clock";
+
+const succeed = async () => "ok";
+const fail = async () => {
+  throw new Error("dependency failed");
+};
+
+async function failTimes(breaker: CircuitBreaker, times: number) {
+  for (let i = 0; i < times; i++) {
+    await expect(breaker.execute(fail)).rejects.toThrow("dependency failed");
+  }
+}
+
+describe("circuit breakers", () => {
+  it("opens once the failure rate reaches the threshold", async () => {
+    const breaker = new CircuitBreaker({
+      failureRateThreshold: 0.5,
+      minimumCalls: 4,
+      clock: new VirtualClock(),
+    });
+    await breaker.execute(succeed);
+    await breaker.execute(succeed);
+    await failTimes(breaker, 1);
+    expect(breaker.state).toEqual("closed");
+    expect(breaker.failureRate).toBeCloseTo(1 / 3);
+
+    await failTimes(breaker, 1);
+    expect(breaker.state).toEqual("open");
+    await expect(breaker.execute(succeed)).rejects.toThrow(
+      CircuitOpenException
+    );
+  });
+
+  it("forgets outcomes that fall out of the window", async () => {
+    const clock = new VirtualClock();
+    const breaker = new CircuitBreaker({
+      minimumCalls: 3,
+      windowMs: 1000,
+      clock,
+    });
+    await failTimes(breaker, 2);
+    await clock.advance(1000);
+    expect(breaker.failureRate).toEqual(0);
+
+    await failTimes(breaker, 1);
+    await breaker.execute(succeed);
+    await breaker.execute(succeed);
+    expect(breaker.state).toEqual("closed");
+  });
+
+  it("closes again once a half-open probe succeeds", async () => {
+    const clock = new VirtualClock();
+    const breaker = new CircuitBreaker({ minimumCalls: 1, openMs: 500, clock });
+    await failTimes(breaker, 1);
+    expect(breaker.state).toEqual("open");
+
+    await clock.advance(500);
+    expect(breaker.state).toEqual("halfOpen");
+    expect(await breaker.execute(succeed)).toEqual("ok");
+    expect(breaker.state).toEqual("closed");
+  });
+
+  it("opens again when a half-open probe fails", async () => {
+    const clock = new VirtualClock();
+    const breaker = new CircuitBreaker({ minimumCalls: 1, openMs: 500, clock });
+    await failTimes(breaker, 1);
+    await clock.advance(500);
+
+    await failTimes(breaker, 1);
+    expect(breaker.state).toEqual("open");
+    await clock.advance(499);
+    expect(breaker.state).toEqual("open");
+    await clock.advance(1);
+    expect(breaker.state).toEqual("halfOpen");
+  });
+
+  it("limits the number of probes in flight", async () => {
+    const clock = new VirtualClock();
+    const breaker = new CircuitBreaker({
+      minimumCalls: 1,
+      openMs: 500,
+      halfOpenProbes: 2,
+      clock,
+    });
+    await failTimes(breaker, 1);
+    await clock.advance(500);
+
+    const gate = new Channel<void>();
+    const probes = [
+      breaker.execute(() => gate.read()),
+      breaker.execute(() => gate.read()),
+    ];
+    await expect(breaker.execute(succeed)).rejects.toThrow(
+      CircuitOpenException
+    );
+
+    await gate.write();
+    await probes[0];
+    // One success isn't enough while another probe is outstanding.
+    expect(breaker.state).toEqual("halfOpen");
+    await gate.write();
+    await probes[1];
+    expect(breaker.state).toEqual("closed");
+  });
+
+  it("ignores errors that don't count as failures", async () => {
+    const breaker = new CircuitBreaker({
+      minimumCalls: 1,
+      isFailure: (error) => (error as Error).message !== "not found",
+      clock: new VirtualClock(),
+    });
+    await expect(
+      breaker.execute(async () => {
+        throw new Error("not found");
+      })
+    ).rejects.toThrow("not found");
+    expect(breaker.state).toEqual("closed");
+    expect(breaker.failureRate).toEqual(0);
+  });
+
+  it("ignores outcomes of calls from before the last change", async () => {
+    const breaker = new CircuitBreaker({
+      minimumCalls: 1,
+      clock: new VirtualClock(),
+    });
+    const gate = new Channel<void>();
+    const slow = breaker.execute(async () => {
+      await gate.read();
+      throw new Error("dependency failed");
+    });
+    breaker.reset();
+    await gate.write();
+    await expect(slow).rejects.toThrow("dependency failed");
+    expect(breaker.state).toEqual("closed");
+  });
+});
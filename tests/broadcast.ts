@@ -0,0 +1,175 @@
+import {
+  BroadcastChannel,
+  SubscriberDisconnectedException,
+  Subscription,
+} from "../src/broadcast";
+import {
+  ChannelClosedException,
+  WriteCancelledException,
+} from "../src/channel";
+import { VirtualClock } from "../src/clock";
+import { sleep } from "../src/sleep";
+import { TimeoutException } from "../src/timeout";
+
+async function collect<T>(subscription: Subscription<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of subscription) values.push(value);
+  return values;
+}
+
+describe("broadcast channel", () => {
+  it("delivers every value to every subscriber until closed", async () => {
+    const broadcast = new BroadcastChannel<number>();
+    const first = collect(broadcast.subscribe());
+    const second = collect(broadcast.subscribe());
+    expect(broadcast.subscribers).toEqual(2);
+
+    await broadcast.publish(1);
+    await broadcast.publish(2);
+    broadcast.close();
+    expect(await Promise.all([first, second])).toEqual([
+      [1, 2],
+      [1, 2],
+    ]);
+    expect(broadcast.subscribers).toEqual(0);
+  });
+
+  it("only delivers values published after subscribing", async () => {
+    const broadcast = new BroadcastChannel<string>();
+    await broadcast.publish("missed");
+    const subscription = broadcast.subscribe();
+    await broadcast.publish("seen");
+    broadcast.close();
+    expect(await collect(subscription)).toEqual(["seen"]);
+  });
+
+  it("rejects publishes once closed, and ends late subscriptions", async () => {
+    const broadcast = new BroadcastChannel<number>();
+    broadcast.close();
+    expect(broadcast.isClosed).toBe(true);
+    await expect(broadcast.publish(1)).rejects.toThrow(
+      ChannelClosedException
+    );
+    const subscription = broadcast.subscribe();
+    expect(subscription.isActive).toBe(false);
+    expect(await collect(subscription)).toEqual([]);
+  });
+
+  it("unsubscribes when the subscription's signal is aborted", async () => {
+    const broadcast = new BroadcastChannel<number>();
+    const controller = new AbortController();
+    const subscription = broadcast.subscribe(controller.signal);
+    const values = collect(subscription);
+
+    await broadcast.publish(1);
+    await sleep(1);
+    controller.abort();
+    expect(await values).toEqual([1]);
+    expect(subscription.isActive).toBe(false);
+    expect(broadcast.subscribers).toEqual(0);
+    await broadcast.publish(2);
+  });
+
+  it("unsubscribes when iteration stops early", async () => {
+    const broadcast = new BroadcastChannel<number>();
+    const subscription = broadcast.subscribe();
+    const first = (async () => {
+      for await (const value of subscription) return value;
+    })();
+
+    await broadcast.publish(1);
+    expect(await first).toEqual(1);
+    expect(broadcast.subscribers).toEqual(0);
+  });
+
+  it("blocks the publisher on a full subscriber by default", async () => {
+    const broadcast = new BroadcastChannel<number>({ bufferSize: 1 });
+    const subscription = broadcast.subscribe();
+    await broadcast.publish(1);
+
+    let published = false;
+    const second = broadcast.publish(2).then(() => (published = true));
+    await sleep(1);
+    expect(published).toBe(false);
+
+    const iterator = subscription[Symbol.asyncIterator]();
+    expect((await iterator.next()).value).toEqual(1);
+    await second;
+    expect((await iterator.next()).value).toEqual(2);
+    subscription.unsubscribe();
+  });
+
+  it("cancels and times out blocked publishes", async () => {
+    const clock = new VirtualClock();
+    const broadcast = new BroadcastChannel<number>({ bufferSize: 0 });
+    const subscription = broadcast.subscribe();
+
+    const controller = new AbortController();
+    const cancelled = broadcast.publish(1, controller.signal);
+    controller.abort();
+    await expect(cancelled).rejects.toThrow(WriteCancelledException);
+
+    const timedOut = expect(
+      broadcast.publish(2, { timeoutMs: 50, clock })
+    ).rejects.toThrow(TimeoutException);
+    await clock.advance(50);
+    await timedOut;
+    subscription.unsubscribe();
+  });
+
+  it("drops the oldest buffered values for slow subscribers", async () => {
+    const broadcast = new BroadcastChannel<number>({
+      bufferSize: 2,
+      slowSubscriber: "dropOldest",
+    });
+    const subscription = broadcast.subscribe();
+    for (const value of [1, 2, 3, 4]) await broadcast.publish(value);
+    broadcast.close();
+    expect(await collect(subscription)).toEqual([3, 4]);
+    expect(subscription.dropped).toEqual(2);
+  });
+
+  it("drops the newest values for slow subscribers", async () => {
+    const broadcast = new BroadcastChannel<number>({
+      bufferSize: 2,
+      slowSubscriber: "dropNewest",
+    });
+    const slow = broadcast.subscribe();
+    const fast = collect(broadcast.subscribe());
+    for (const value of [1, 2, 3, 4]) {
+      await broadcast.publish(value);
+      await sleep(1);
+    }
+    broadcast.close();
+    expect(await collect(slow)).toEqual([1, 2]);
+    expect(slow.dropped).toEqual(2);
+    expect(await fast).toEqual([1, 2, 3, 4]);
+  });
+
+  it("disconnects slow subscribers after they drain their buffer", async () => {
+    const broadcast = new BroadcastChannel<number>({
+      bufferSize: 1,
+      slowSubscriber: "disconnect",
+    });
+    const subscription = broadcast.subscribe();
+    await broadcast.publish(1);
+    await broadcast.publish(2);
+    expect(broadcast.subscribers).toEqual(0);
+
+    const values: number[] = [];
+    await expect(
+      (async () => {
+        for await (const value of subscription) values.push(value);
+      })()
+    ).rejects.toThrow(SubscriberDisconnectedException);
+    expect(values).toEqual([1]);
+  });
+
+  it("rejects buffer sizes the policy can't use", () => {
+    expect(() => new BroadcastChannel({ bufferSize: -1 })).toThrow(RangeError);
+    expect(
+      () =>
+        new BroadcastChannel({ bufferSize: 0, slowSubscriber: "dropNewest" })
+    ).toThrow(RangeError);
+  });
+});
@@ -1,3 +1,4 @@
+import "../src/polyfill";
 import {
   Channel,
   ChannelClosedException,
@@ -5,6 +6,7 @@ import {
   WriteCancelledException,
 } from "../src/channel";
 import { sleep } from "../src/sleep";
+import { TimeoutException } from "../src/timeout";
 
 describe("channel", () => {
   it("supports writes before reads", async () => {
@@ -265,6 +267,518 @@ describe("channel", () => {
     expect(gotString).toBe(true);
     expect(gotNumber).toBe(true);
   });
+
+  it("supports buffered writes without readers", async () => {
+    const channel = new Channel<number>({ capacity: 2 });
+    expect(channel.capacity).toEqual(2);
+    expect(channel.length).toEqual(0);
+
+    await channel.write(1);
+    await channel.write(2);
+    expect(channel.length).toEqual(2);
+
+    let thirdWriteDone = false;
+    const thirdWrite = channel.write(3).then(() => {
+      thirdWriteDone = true;
+    });
+    await sleep(1);
+    expect(thirdWriteDone).toBe(false);
+
+    expect(await channel.read()).toEqual(1);
+    await thirdWrite;
+    expect(thirdWriteDone).toBe(true);
+    expect(channel.length).toEqual(2);
+
+    expect(await channel.read()).toEqual(2);
+    expect(await channel.read()).toEqual(3);
+    expect(channel.length).toEqual(0);
+  });
+
+  it("supports cancelling buffered writes when full", async () => {
+    const channel = new Channel<number>({ capacity: 1 });
+    await channel.write(1);
+
+    const controller = new AbortController();
+    const writePromise = channel.write(2, controller.signal);
+    setImmediate(() => controller.abort());
+    await expect(writePromise).rejects.toBeInstanceOf(WriteCancelledException);
+
+    expect(channel.length).toEqual(1);
+    expect(await channel.read()).toEqual(1);
+  });
+
+  it("supports draining buffered values after closing", async () => {
+    const channel = new Channel<number>({ capacity: 3 });
+    await channel.write(1);
+    await channel.write(2);
+    channel.close();
+
+    await expect(channel.write(3)).rejects.toBeInstanceOf(
+      ChannelClosedException
+    );
+
+    const numbers: number[] = [];
+    for await (const element of channel.iterate()) {
+      numbers.push(element);
+    }
+    expect(numbers).toEqual([1, 2]);
+    await expect(channel.read()).rejects.toBeInstanceOf(ChannelClosedException);
+  });
+
+  it("supports select on buffered channels", async () => {
+    const numberChannel = new Channel<number>({ capacity: 1 });
+    const stringChannel = new Channel<string>();
+    await numberChannel.write(4);
+
+    let gotNumber = false;
+    await Channel.select(
+      numberChannel,
+      async (numberValue) => {
+        expect(numberValue).toEqual(4);
+        gotNumber = true;
+      },
+      stringChannel,
+      async () => {
+        fail("Should not have run");
+      }
+    );
+
+    expect(gotNumber).toBe(true);
+    expect(numberChannel.length).toEqual(0);
+  });
+
+  it("rejects invalid capacities", () => {
+    expect(() => new Channel<number>({ capacity: -1 })).toThrow(RangeError);
+    expect(() => new Channel<number>({ capacity: 1.5 })).toThrow(RangeError);
+  });
+
+  it("supports select with write cases", async () => {
+    const numberChannel = new Channel<number>();
+    const stringChannel = new Channel<string>();
+
+    const readPromise = stringChannel.read();
+
+    let wroteString = false;
+    await Channel.select(
+      numberChannel,
+      async () => {
+        fail("Should not have run");
+      },
+      stringChannel.writeCase("written"),
+      async (stringValue) => {
+        expect(stringValue).toEqual("written");
+        wroteString = true;
+      }
+    );
+
+    expect(wroteString).toBe(true);
+    expect(await readPromise).toEqual("written");
+  });
+
+  it("does not let losing write cases take effect", async () => {
+    const firstChannel = new Channel<number>();
+    const secondChannel = new Channel<number>();
+
+    const selectPromise = Channel.select(
+      firstChannel.writeCase(1),
+      async () => {},
+      secondChannel.writeCase(2),
+      async () => {}
+    );
+
+    expect(await firstChannel.read()).toEqual(1);
+    await selectPromise;
+
+    const controller = new AbortController();
+    const secondRead = secondChannel.read(controller.signal);
+    setImmediate(() => controller.abort());
+    await expect(secondRead).rejects.toBeInstanceOf(ReadCancelledException);
+  });
+
+  it("runs the default case when no case is ready", async () => {
+    const numberChannel = new Channel<number>();
+    const bufferedChannel = new Channel<number>({ capacity: 1 });
+    await bufferedChannel.write(1);
+
+    let ranDefault = false;
+    await Channel.select(
+      numberChannel,
+      async () => {
+        fail("Should not have run");
+      },
+      bufferedChannel.writeCase(2),
+      async () => {
+        fail("Should not have run");
+      },
+      {
+        default: async () => {
+          ranDefault = true;
+        },
+      }
+    );
+
+    expect(ranDefault).toBe(true);
+    expect(bufferedChannel.length).toEqual(1);
+    expect(await bufferedChannel.read()).toEqual(1);
+  });
+
+  it("skips the default case when a case is ready", async () => {
+    const numberChannel = new Channel<number>();
+    const stringChannel = new Channel<string>();
+    const readPromise = numberChannel.read();
+
+    let wroteNumber = false;
+    await Channel.select(
+      numberChannel.writeCase(3),
+      async () => {
+        wroteNumber = true;
+      },
+      stringChannel,
+      async () => {
+        fail("Should not have run");
+      },
+      {
+        default: async () => {
+          fail("Should not have run");
+        },
+      }
+    );
+
+    expect(wroteNumber).toBe(true);
+    expect(await readPromise).toEqual(3);
+  });
+
+  it("rejects select when a channel is closed", async () => {
+    const numberChannel = new Channel<number>();
+    const stringChannel = new Channel<string>();
+    stringChannel.close();
+
+    await expect(
+      Channel.select(
+        numberChannel,
+        async () => {
+          fail("Should not have run");
+        },
+        stringChannel,
+        async () => {
+          fail("Should not have run");
+        }
+      )
+    ).rejects.toBeInstanceOf(ChannelClosedException);
+  });
+
+  it("supports selectFrom with any number of cases", async () => {
+    const channels = [0, 1, 2, 3, 4, 5, 6].map(() => new Channel<number>());
+    const writePromise = channels[6].write(60);
+
+    const result = await Channel.selectFrom(channels);
+    expect(result.index).toEqual(6);
+    expect(result.channel).toBe(channels[6]);
+    expect(result.value).toEqual(60);
+
+    await writePromise;
+  });
+
+  it("supports selectFrom with tagged tuple results", async () => {
+    const numberChannel = new Channel<number>();
+    const stringChannel = new Channel<string>();
+    const readPromise = stringChannel.read();
+
+    const result = await Channel.selectFrom([
+      numberChannel,
+      stringChannel.writeCase("sent"),
+    ]);
+    switch (result.index) {
+      case 0:
+        fail("Should not have selected the read");
+        break;
+      case 1: {
+        const sent: string = result.value;
+        expect(sent).toEqual("sent");
+        expect(result.channel).toBe(stringChannel);
+        break;
+      }
+    }
+
+    expect(await readPromise).toEqual("sent");
+  });
+
+  it("supports selectFrom with keyed cases", async () => {
+    const numberChannel = new Channel<number>({ capacity: 1 });
+    const stringChannel = new Channel<string>();
+    await numberChannel.write(9);
+
+    const result = await Channel.selectFrom({
+      numbers: numberChannel,
+      strings: stringChannel,
+    });
+    expect(result.key).toEqual("numbers");
+    if (result.key === "numbers") {
+      const received: number = result.value;
+      expect(received).toEqual(9);
+    }
+  });
+
+  it("resolves selectFrom to undefined on default or cancellation", async () => {
+    const numberChannel = new Channel<number>();
+
+    const defaultResult = await Channel.selectFrom([numberChannel], {
+      default: async () => {},
+    });
+    expect(defaultResult).toBeUndefined();
+
+    const controller = new AbortController();
+    const cancelledPromise = Channel.selectFrom(
+      [numberChannel],
+      controller.signal
+    );
+    setImmediate(() => controller.abort());
+    expect(await cancelledPromise).toBeUndefined();
+  });
+
+  it("completes blocked reads according to the policy", async () => {
+    const channel = new Channel<number>({ policy: "lifo" });
+    const order: number[] = [];
+    const reads = [0, 1, 2].map((i) =>
+      channel.read().then((value) => order.push(i * 10 + value))
+    );
+
+    await channel.write(1);
+    await channel.write(2);
+    await channel.write(3);
+    await Promise.all(reads);
+    expect(order).toEqual([21, 12, 3]);
+  });
+
+  it("completes blocked writes by priority", async () => {
+    const channel = new Channel<string>({ policy: "priority" });
+    const writes = [
+      channel.write("low", undefined, 1),
+      channel.write("high", undefined, 10),
+      channel.write("middle", undefined, 5),
+    ];
+
+    expect(await channel.read()).toEqual("high");
+    expect(await channel.read()).toEqual("middle");
+    expect(await channel.read()).toEqual("low");
+    await Promise.all(writes);
+  });
+
+  it("supports scoped iteration that closes on dispose", async () => {
+    const channel = new Channel<number>();
+    const writePromise = (async () => {
+      for (let i = 0; ; i++) {
+        await channel.write(i);
+      }
+    })();
+
+    const numbers: number[] = [];
+    {
+      await using values = channel.iteration({ closeOnDispose: true });
+      for await (const element of values) {
+        numbers.push(element);
+        if (numbers.length === 3) break;
+      }
+    }
+
+    expect(numbers).toEqual([0, 1, 2]);
+    expect(channel.isClosed).toBe(true);
+    await expect(writePromise).rejects.toBeInstanceOf(ChannelClosedException);
+  });
+
+  it("cancels pending reads when a scoped iteration is disposed", async () => {
+    const channel = new Channel<number>();
+    const values = channel.iteration();
+
+    const numbers: number[] = [];
+    const iteratePromise = (async () => {
+      for await (const element of values) {
+        numbers.push(element);
+      }
+    })();
+
+    await channel.write(1);
+    values[Symbol.dispose]();
+    await iteratePromise;
+
+    expect(numbers).toEqual([1]);
+    expect(channel.isClosed).toBe(false);
+  });
+
+  it("times out reads, writes and selects", async () => {
+    const channel = new Channel<number>();
+    await expect(channel.read({ timeoutMs: 5 })).rejects.toBeInstanceOf(
+      TimeoutException
+    );
+    await expect(channel.write(1, { timeoutMs: 5 })).rejects.toBeInstanceOf(
+      TimeoutException
+    );
+    await expect(
+      Channel.selectFrom([channel, channel.writeCase(2)], { timeoutMs: 5 })
+    ).rejects.toBeInstanceOf(TimeoutException);
+
+    // Aborting still reports a cancellation.
+    const controller = new AbortController();
+    const readPromise = channel.read({
+      signal: controller.signal,
+      timeoutMs: 1000,
+    });
+    controller.abort();
+    await expect(readPromise).rejects.toBeInstanceOf(ReadCancelledException);
+
+    const writePromise = channel.write(3, { timeoutMs: 1000 });
+    expect(await channel.read({ timeoutMs: 1000 })).toEqual(3);
+    await writePromise;
+  });
+
+  it("times out iteration as a whole", async () => {
+    const channel = new Channel<number>({ capacity: 2 });
+    await channel.write(1);
+    await channel.write(2);
+
+    const values: number[] = [];
+    await expect(
+      (async () => {
+        for await (const value of channel.iterate({ timeoutMs: 20 })) {
+          values.push(value);
+        }
+      })()
+    ).rejects.toBeInstanceOf(TimeoutException);
+    expect(values).toEqual([1, 2]);
+  });
+
+  it("rejects reads with the reason the channel was closed with", async () => {
+    const channel = new Channel<number>({ capacity: 1 });
+    await channel.write(1);
+    const failure = new Error("producer failed");
+    channel.close(failure);
+
+    expect(await channel.read()).toEqual(1);
+    await expect(channel.read()).rejects.toBe(failure);
+    await expect(channel.write(2)).rejects.toThrow(ChannelClosedException);
+  });
+
+  it("rethrows the close reason from iteration", async () => {
+    const channel = new Channel<number>();
+    const values: number[] = [];
+    const iteration = (async () => {
+      for await (const value of channel.iterate()) values.push(value);
+    })();
+
+    await channel.write(1);
+    channel.close(new Error("producer failed"));
+    await expect(iteration).rejects.toThrow("producer failed");
+    expect(values).toEqual([1]);
+  });
+
+  it("resolves closed once the channel is closed and drained", async () => {
+    const channel = new Channel<number>({ capacity: 2 });
+    let drained = false;
+    void channel.closed.then(() => (drained = true));
+
+    await channel.write(1);
+    await channel.write(2);
+    channel.close(new Error("producer failed"));
+    await sleep(1);
+    expect(drained).toBe(false);
+
+    await channel.read();
+    await sleep(1);
+    expect(drained).toBe(false);
+    await channel.read();
+    await channel.closed;
+    expect(drained).toBe(true);
+  });
+
+  it("creates channels from iterables", async () => {
+    const values: number[] = [];
+    for await (const value of Channel.from([1, 2, 3]).iterate()) {
+      values.push(value);
+    }
+    expect(values).toEqual([1, 2, 3]);
+
+    async function* failing() {
+      yield "a";
+      throw new Error("source failed");
+    }
+    const channel = Channel.from(failing());
+    expect(await channel.read()).toEqual("a");
+    await expect(channel.read()).rejects.toThrow("source failed");
+  });
+
+  it("stops iterating when the channel from an iterable closes", async () => {
+    let finished = false;
+    async function* naturals() {
+      try {
+        for (let i = 0; ; i++) yield i;
+      } finally {
+        finished = true;
+      }
+    }
+
+    const controller = new AbortController();
+    const channel = Channel.from(naturals(), { signal: controller.signal });
+    expect(await channel.read()).toEqual(0);
+    expect(await channel.read()).toEqual(1);
+    controller.abort();
+    await sleep(1);
+    expect(channel.isClosed).toBe(true);
+    expect(finished).toBe(true);
+  });
+
+  it("pipes values and closes the destination", async () => {
+    const source = Channel.from([1, 2, 3]);
+    const destination = new Channel<number>({ capacity: 3 });
+    await source.pipeTo(destination);
+
+    expect(destination.isClosed).toBe(true);
+    const values: number[] = [];
+    for await (const value of destination.iterate()) values.push(value);
+    expect(values).toEqual([1, 2, 3]);
+  });
+
+  it("pipes the source's close reason to the destination", async () => {
+    const source = new Channel<number>();
+    const destination = new Channel<number>({ capacity: 1 });
+    const piping = source.pipeTo(destination);
+
+    await source.write(1);
+    source.close(new Error("producer failed"));
+    await expect(piping).rejects.toThrow("producer failed");
+    expect(await destination.read()).toEqual(1);
+    await expect(destination.read()).rejects.toThrow("producer failed");
+  });
+
+  it("closes the source when the pipe destination closes", async () => {
+    const source = new Channel<number>();
+    const destination = new Channel<number>();
+    const piping = source.pipeTo(destination);
+
+    void source.write(1);
+    destination.close();
+    await expect(piping).rejects.toThrow(ChannelClosedException);
+    expect(source.isClosed).toBe(true);
+
+    const kept = new Channel<number>();
+    const closedDestination = new Channel<number>();
+    closedDestination.close();
+    const keptPiping = kept.pipeTo(closedDestination, { preventCancel: true });
+    void kept.write(1);
+    await expect(keptPiping).rejects.toThrow(ChannelClosedException);
+    expect(kept.isClosed).toBe(false);
+  });
+
+  it("stops piping when aborted, leaving both channels open", async () => {
+    const source = new Channel<number>();
+    const destination = new Channel<number>();
+    const controller = new AbortController();
+    const piping = source.pipeTo(destination, { signal: controller.signal });
+
+    controller.abort();
+    await expect(piping).rejects.toThrow(ReadCancelledException);
+    expect(source.isClosed).toBe(false);
+    expect(destination.isClosed).toBe(false);
+  });
 });
 
 it("supports select with at-most-once execution", async () => {
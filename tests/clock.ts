@@ -0,0 +1,85 @@
+import { VirtualClock } from "../src/clock";
+import { sleep } from "../src/sleep";
+
+describe("virtual clock", () => {
+  it("fires timers in order as time is advanced", async () => {
+    const clock = new VirtualClock({ startTime: 1000 });
+    const fired: number[] = [];
+    clock.schedule(() => fired.push(clock.now()), 20);
+    clock.schedule(() => fired.push(clock.now()), 10);
+    const cancel = clock.schedule(() => fired.push(-1), 15);
+    cancel();
+    expect(clock.pendingTimers).toEqual(2);
+
+    await clock.advance(10);
+    expect(fired).toEqual([1010]);
+    await clock.advance(5);
+    expect(clock.now()).toEqual(1015);
+    await clock.advance(100);
+    expect(fired).toEqual([1010, 1020]);
+    expect(clock.now()).toEqual(1115);
+  });
+
+  it("fires timers scheduled by resumed code during an advance", async () => {
+    const clock = new VirtualClock();
+    let iterations = 0;
+    const loop = (async () => {
+      while (await sleep(10, undefined, clock)) {
+        if (++iterations === 3) return;
+      }
+    })();
+
+    await clock.advance(25);
+    expect(iterations).toEqual(2);
+    await clock.advance(5);
+    await loop;
+    expect(iterations).toEqual(3);
+  });
+
+  it("runs until no timers remain", async () => {
+    const clock = new VirtualClock();
+    const wakes: number[] = [];
+    const sleepers = [30, 10, 20].map(async (ms) => {
+      await sleep(ms, undefined, clock);
+      wakes.push(clock.now());
+    });
+
+    await clock.runUntilIdle();
+    await Promise.all(sleepers);
+    expect(wakes).toEqual([10, 20, 30]);
+    expect(clock.pendingTimers).toEqual(0);
+
+    const forever = () => clock.schedule(forever, 1);
+    forever();
+    await expect(clock.runUntilIdle(5)).rejects.toThrow();
+  });
+
+  it("jumps to the next timer automatically when enabled", async () => {
+    const clock = new VirtualClock({ autoAdvance: true });
+    const start = Date.now();
+    expect(await sleep(60 * 60 * 1000, undefined, clock)).toBe(true);
+    expect(clock.now()).toEqual(60 * 60 * 1000);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it("waits for code to settle before jumping ahead", async () => {
+    const clock = new VirtualClock({ autoAdvance: true });
+    const fired: string[] = [];
+    clock.schedule(() => fired.push("late"), 100);
+    // A turn of the real event loop passes before the earlier timer.
+    await new Promise((resolve) => setImmediate(resolve));
+    clock.schedule(() => fired.push("early"), 10);
+
+    await sleep(200, undefined, clock);
+    expect(fired).toEqual(["early", "late"]);
+  });
+
+  it("cancels virtual sleeps", async () => {
+    const clock = new VirtualClock();
+    const controller = new AbortController();
+    const sleepPromise = sleep(100, controller.signal, clock);
+    controller.abort();
+    expect(await sleepPromise).toBe(false);
+    expect(clock.pendingTimers).toEqual(0);
+  });
+});
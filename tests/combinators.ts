@@ -0,0 +1,222 @@
+import { Channel } from "../src/channel";
+import { VirtualClock } from "../src/clock";
+import {
+  batch,
+  fanOut,
+  filter,
+  map,
+  mapConcurrent,
+  merge,
+  pipeline,
+  tee,
+} from "../src/combinators";
+import { sleep } from "../src/sleep";
+
+async function produce<T>(channel: Channel<T>, values: T[]): Promise<void> {
+  for (const value of values) await channel.write(value);
+  channel.close();
+}
+
+async function collect<T>(channel: Channel<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of channel.iterate()) values.push(value);
+  return values;
+}
+
+describe("channel combinators", () => {
+  it("maps and filters, closing outputs when the source closes", async () => {
+    const source = new Channel<number>();
+    const evens = filter(source, (value) => value % 2 === 0);
+    const doubled = map(evens, async (value) => value * 2);
+
+    void produce(source, [1, 2, 3, 4, 5, 6]);
+    expect(await collect(doubled)).toEqual([4, 8, 12]);
+    expect(doubled.isClosed).toBe(true);
+  });
+
+  it("maps with bounded concurrency", async () => {
+    const source = new Channel<number>();
+    let running = 0;
+    let maxRunning = 0;
+    const results = mapConcurrent(source, 3, async (value) => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await sleep(5);
+      running--;
+      return value + 1;
+    });
+
+    void produce(source, [1, 2, 3, 4, 5, 6, 7, 8]);
+    const values = await collect(results);
+    expect(values.sort((a, b) => a - b)).toEqual([2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(maxRunning).toEqual(3);
+  });
+
+  it("merges channels until every input closes", async () => {
+    const first = new Channel<string>();
+    const second = new Channel<string>();
+    const merged = merge(first, second, { capacity: 1 });
+    expect(merged.capacity).toEqual(1);
+
+    void produce(first, ["a", "b"]);
+    await sleep(1);
+    expect(merged.isClosed).toBe(false);
+    void produce(second, ["c"]);
+    expect((await collect(merged)).sort()).toEqual(["a", "b", "c"]);
+  });
+
+  it("fans values out to whichever output is ready", async () => {
+    const source = new Channel<number>();
+    const [first, second] = fanOut(source, 2);
+    void produce(source, [1, 2, 3, 4]);
+
+    const [firstValues, secondValues] = await Promise.all([
+      collect(first),
+      collect(second),
+    ]);
+    expect([...firstValues, ...secondValues].sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it("skips fan-out outputs that have been closed", async () => {
+    const source = new Channel<number>();
+    const [first, second] = fanOut(source, 2);
+    first.close();
+    void produce(source, [1, 2]);
+    expect(await collect(second)).toEqual([1, 2]);
+  });
+
+  it("tees every value to every output", async () => {
+    const source = new Channel<number>();
+    const [first, second] = tee(source);
+    void produce(source, [1, 2, 3]);
+
+    expect(await Promise.all([collect(first), collect(second)])).toEqual([
+      [1, 2, 3],
+      [1, 2, 3],
+    ]);
+  });
+
+  it("batches values, flushing partial batches", async () => {
+    const source = new Channel<number>();
+    const batches = batch(source, 2);
+    void produce(source, [1, 2, 3, 4, 5]);
+    expect(await collect(batches)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it("flushes a partial batch once it has waited long enough", async () => {
+    const clock = new VirtualClock();
+    const source = new Channel<number>();
+    const batches = batch(source, 10, { maxWaitMs: 100, clock });
+
+    await source.write(1);
+    await source.write(2);
+    const firstBatch = batches.read();
+    await clock.advance(100);
+    expect(await firstBatch).toEqual([1, 2]);
+
+    source.close();
+    expect(await collect(batches)).toEqual([]);
+  });
+
+  it("stops stages when cancelled", async () => {
+    const source = new Channel<number>();
+    const controller = new AbortController();
+    const doubled = map(source, (value) => value * 2, {
+      signal: controller.signal,
+    });
+
+    void source.write(1);
+    expect(await doubled.read()).toEqual(2);
+    controller.abort();
+    await sleep(1);
+    expect(doubled.isClosed).toBe(true);
+    expect(source.isClosed).toBe(false);
+  });
+
+  it("reports stage errors to the handler", async () => {
+    const source = new Channel<number>();
+    const errors: unknown[] = [];
+    const output = map(
+      source,
+      (value) => {
+        if (value === 2) throw new Error("bad value");
+        return value;
+      },
+      { onError: (error) => errors.push(error) }
+    );
+
+    void source.write(1);
+    void source.write(2);
+    expect(await output.read()).toEqual(1);
+    await expect(output.read()).rejects.toThrow("bad value");
+    expect(errors.map((error) => (error as Error).message)).toEqual([
+      "bad value",
+    ]);
+  });
+
+  it("closes outputs with the error of a failed stage", async () => {
+    const source = new Channel<number>();
+    const output = map(source, (value) => {
+      if (value === 2) throw new Error("bad value");
+      return value * 10;
+    });
+
+    void source.write(1);
+    void source.write(2);
+    const values: number[] = [];
+    await expect(
+      (async () => {
+        for await (const value of output.iterate()) values.push(value);
+      })()
+    ).rejects.toThrow("bad value");
+    expect(values).toEqual([10]);
+  });
+});
+
+describe("pipelines", () => {
+  it("runs values through every stage", async () => {
+    const source = new Channel<number>();
+    void produce(source, [1, 2, 3, 4, 5, 6, 7]);
+
+    const results = await pipeline(source, { capacity: 1 })
+      .map((value) => value * 10)
+      .filter((value) => value > 20)
+      .batch(2)
+      .toArray();
+    expect(results).toEqual([[30, 40], [50, 60], [70]]);
+  });
+
+  it("cancels every stage when one fails", async () => {
+    const source = new Channel<number>();
+    const writes = produce(source, [1, 2, 3]).catch(() => {});
+
+    const seen: number[] = [];
+    const run = pipeline(source)
+      .mapConcurrent(2, async (value) => {
+        if (value === 2) throw new Error("stage failed");
+        return value;
+      })
+      .forEach(async (value) => {
+        seen.push(value);
+      });
+
+    await expect(run).rejects.toThrow("stage failed");
+    expect(seen.length).toBeLessThanOrEqual(2);
+    source.close();
+    await writes;
+  });
+
+  it("propagates cancellation from the pipeline's signal", async () => {
+    const source = new Channel<number>();
+    const controller = new AbortController();
+    const built = pipeline(source, { signal: controller.signal }).map(
+      (value) => value + 1
+    );
+
+    void source.write(1);
+    expect(await built.channel.read()).toEqual(2);
+    controller.abort();
+    expect(await built.toArray()).toEqual([]);
+    expect(built.channel.isClosed).toBe(true);
+    expect(source.isClosed).toBe(false);
+  });
+});
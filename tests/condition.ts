@@ -1,3 +1,4 @@
+import { TimeoutException } from "../src/timeout";
 import { Condition } from "../src/condition";
 
 describe("condition variables", () => {
@@ -85,4 +86,77 @@ describe("condition variables", () => {
     expect(notifications).toEqual(2);
     expect(cv.waiting).toEqual(0);
   });
+
+  it("notifies in arrival order with the fifo policy", async () => {
+    const cv = new Condition({ policy: "fifo" });
+    const order: number[] = [];
+    const waits = [0, 1, 2].map((i) => cv.wait().then(() => order.push(i)));
+
+    cv.notifyOne();
+    cv.notifyOne();
+    cv.notifyOne();
+    await Promise.all(waits);
+    expect(order).toEqual([0, 1, 2]);
+  });
+
+  it("notifies in reverse arrival order with the lifo policy", async () => {
+    const cv = new Condition({ policy: "lifo" });
+    const order: number[] = [];
+    const waits = [0, 1, 2].map((i) => cv.wait().then(() => order.push(i)));
+
+    cv.notifyOne();
+    cv.notifyOne();
+    cv.notifyOne();
+    await Promise.all(waits);
+    expect(order).toEqual([2, 1, 0]);
+  });
+
+  it("notifies by priority with the priority policy", async () => {
+    const cv = new Condition({ policy: "priority" });
+    const order: number[] = [];
+    const waits = [1, 5, 3, 5].map((priority, i) =>
+      cv.wait(undefined, priority).then(() => order.push(i))
+    );
+
+    cv.notifyOne();
+    cv.notifyOne();
+    cv.notifyOne();
+    cv.notifyOne();
+    await Promise.all(waits);
+    expect(order).toEqual([1, 3, 2, 0]);
+  });
+
+  it("keeps arrival order when waits are aborted", async () => {
+    const cv = new Condition({ policy: "fifo" });
+    const controller = new AbortController();
+    const order: number[] = [];
+    const first = cv.wait().then(() => order.push(0));
+    const aborted = cv.wait(controller.signal);
+    const third = cv.wait().then(() => order.push(2));
+
+    controller.abort();
+    expect(await aborted).toBe(false);
+    expect(cv.waiting).toEqual(2);
+
+    cv.notifyAll();
+    await Promise.all([first, third]);
+    expect(order).toEqual([0, 2]);
+  });
+
+  it("times out waits distinctly from aborting them", async () => {
+    const cv = new Condition();
+    await expect(cv.wait({ timeoutMs: 5 })).rejects.toBeInstanceOf(
+      TimeoutException
+    );
+
+    const controller = new AbortController();
+    const waitPromise = cv.wait({ signal: controller.signal, timeoutMs: 1000 });
+    controller.abort();
+    expect(await waitPromise).toBe(false);
+
+    const notifiedPromise = cv.wait({ timeoutMs: 1000 });
+    cv.notifyOne();
+    expect(await notifiedPromise).toBe(true);
+    expect(cv.waiting).toEqual(0);
+  });
 });
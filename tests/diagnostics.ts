@@ -0,0 +1,143 @@
+import { Channel } from "../src/channel";
+import {
+  DeadlockDetectedException,
+  diagnosticTask,
+  disableDiagnostics,
+  enableDiagnostics,
+} from "../src/diagnostics";
+import { Mutex } from "../src/mutex";
+import { Semaphore } from "../src/semaphore";
+import { sleep } from "../src/sleep";
+
+describe("diagnostics", () => {
+  afterEach(() => disableDiagnostics());
+
+  it("records holders and waiters", async () => {
+    const diagnostics = enableDiagnostics();
+    const mutex = new Mutex({ name: "cache" });
+    const channel = new Channel<number>({ name: "jobs" });
+
+    const handle = await diagnosticTask("holder", () => mutex.acquire());
+    const controller = new AbortController();
+    const waitPromise = diagnosticTask("waiter", () =>
+      mutex.acquire(controller.signal)
+    );
+    const readPromise = channel.read(controller.signal).catch(() => {});
+
+    const snapshot = diagnostics.snapshot();
+    const mutexSnapshot = snapshot.find((r) => r.name === "cache");
+    expect(mutexSnapshot?.kind).toEqual("Mutex");
+    expect(mutexSnapshot?.holders.map((h) => h.task.label)).toEqual(["holder"]);
+    expect(mutexSnapshot?.holders[0].handle).toEqual(handle);
+    expect(mutexSnapshot?.waiters.map((w) => w.task.label)).toEqual(["waiter"]);
+    expect(mutexSnapshot?.waiters[0].stack).toBeDefined();
+
+    const channelSnapshot = snapshot.find((r) => r.name === "jobs");
+    expect(channelSnapshot?.kind).toEqual("Channel");
+    expect(channelSnapshot?.waiters.length).toEqual(1);
+
+    const report = diagnostics.report();
+    expect(report).toContain('Mutex "cache"');
+    expect(report).toContain("held by task #");
+    expect(report).toContain('"waiter"');
+
+    controller.abort();
+    await Promise.all([waitPromise, readPromise]);
+    mutex.release(handle);
+    expect(diagnostics.snapshot()).toEqual([]);
+  });
+
+  it("finds and raises deadlocks across primitives", async () => {
+    const diagnostics = enableDiagnostics();
+    const mutex = new Mutex({ name: "first" });
+    const semaphore = new Semaphore(1, { name: "second" });
+
+    // Each task holds one resource and waits for the other.
+    const taskA = diagnosticTask("a", async () => {
+      await mutex.acquire();
+      await sleep(1);
+      return await semaphore.acquire();
+    });
+    const taskB = diagnosticTask("b", async () => {
+      await semaphore.acquire();
+      await sleep(1);
+      return await mutex.acquire();
+    });
+    await sleep(10);
+
+    const deadlocks = diagnostics.findDeadlocks();
+    expect(deadlocks.length).toEqual(1);
+    const steps = deadlocks[0].steps;
+    expect(steps.map((step) => step.task.label).sort()).toEqual(["a", "b"]);
+    expect(steps.map((step) => step.waitingFor.name).sort()).toEqual([
+      "first",
+      "second",
+    ]);
+    expect(diagnostics.report()).toContain("Deadlock detected");
+
+    diagnostics.raiseDeadlocks();
+    await expect(taskA).rejects.toBeInstanceOf(DeadlockDetectedException);
+    await expect(taskB).rejects.toBeInstanceOf(DeadlockDetectedException);
+  });
+
+  it("raises a deadlock between two tasks automatically", async () => {
+    enableDiagnostics({ raiseOnDeadlock: true });
+    const first = new Mutex({ name: "first" });
+    const second = new Mutex({ name: "second" });
+
+    const taskA = diagnosticTask("a", async () => {
+      const handle = await first.acquire();
+      try {
+        await sleep(5);
+        return await second.acquire();
+      } finally {
+        first.release(handle);
+      }
+    });
+    const taskB = diagnosticTask("b", async () => {
+      const handle = await second.acquire();
+      try {
+        await sleep(10);
+        return await first.acquire();
+      } finally {
+        second.release(handle);
+      }
+    });
+
+    const [resultA, resultB] = await Promise.allSettled([taskA, taskB]);
+    expect(resultA.status).toEqual("rejected");
+    expect(resultB.status).toEqual("rejected");
+    const error = (resultA as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(DeadlockDetectedException);
+    expect(error.deadlock.steps.length).toEqual(2);
+    expect(error.message).toContain('Mutex "second"');
+  });
+
+  it("detects a task waiting for a lock it already holds", async () => {
+    const diagnostics = enableDiagnostics();
+    const mutex = new Mutex({ name: "self" });
+
+    const task = diagnosticTask("reentrant", async () => {
+      await mutex.acquire();
+      return await mutex.acquire();
+    });
+    await sleep(1);
+
+    const deadlocks = diagnostics.findDeadlocks();
+    expect(deadlocks.length).toEqual(1);
+    expect(deadlocks[0].steps[0].task.label).toEqual("reentrant");
+
+    expect(diagnostics.raiseDeadlocks().length).toEqual(1);
+    await expect(task).rejects.toBeInstanceOf(DeadlockDetectedException);
+  });
+
+  it("records nothing while disabled", async () => {
+    const diagnostics = enableDiagnostics();
+    disableDiagnostics();
+
+    const mutex = new Mutex();
+    const handle = await mutex.acquire();
+    expect(diagnostics.snapshot()).toEqual([]);
+    mutex.release(handle);
+  });
+});
@@ -0,0 +1,122 @@
+import { Channel } from "../src/channel";
+import {
+  PrimitiveObserver,
+  addObserver,
+  removeObserver,
+} from "../src/instrumentation";
+import { Mutex } from "../src/mutex";
+import { RWMutex } from "../src/rwmutex";
+import { Semaphore } from "../src/semaphore";
+import { sleep } from "../src/sleep";
+import { TimeoutException } from "../src/timeout";
+
+function recordingObserver(): { events: string[] } & PrimitiveObserver {
+  const events: string[] = [];
+  return {
+    events,
+    acquireRequested: (e) => events.push(`requested ${e.name} ${e.operation}`),
+    acquireGranted: (e) => events.push(`granted ${e.name} ${e.operation}`),
+    acquireAborted: (e) =>
+      events.push(`aborted ${e.name} ${e.operation} ${e.timedOut}`),
+    released: (e) => events.push(`released ${e.name} ${e.operation}`),
+    rendezvous: (e) => events.push(`rendezvous ${e.name} ${e.operation}`),
+    closed: (e) => events.push(`closed ${e.kind} ${e.name}`),
+  };
+}
+
+describe("instrumentation", () => {
+  let observer: ReturnType<typeof recordingObserver>;
+  beforeEach(() => {
+    observer = recordingObserver();
+    addObserver(observer);
+  });
+  afterEach(() => removeObserver(observer));
+
+  it("reports acquisitions and releases with their durations", async () => {
+    const mutex = new Mutex({ name: "cache" });
+    let waitMs = -1;
+    let heldMs = -1;
+    const durations: PrimitiveObserver = {
+      acquireGranted: (e) => (waitMs = e.waitMs),
+      released: (e) => (heldMs = e.heldMs),
+    };
+    addObserver(durations);
+
+    const handle = await mutex.acquire();
+    const waiting = mutex.acquire();
+    await sleep(5);
+    mutex.release(handle);
+    mutex.release(await waiting);
+    removeObserver(durations);
+
+    expect(observer.events).toEqual([
+      "requested cache acquire",
+      "granted cache acquire",
+      "requested cache acquire",
+      "released cache acquire",
+      "granted cache acquire",
+      "released cache acquire",
+    ]);
+    expect(waitMs).toBeGreaterThanOrEqual(4);
+    expect(heldMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("reports aborted and timed out acquisitions", async () => {
+    const semaphore = new Semaphore(1, { name: "slots" });
+    const handle = await semaphore.acquire();
+    const controller = new AbortController();
+    const aborted = semaphore.acquire(controller.signal);
+    controller.abort();
+    expect(await aborted).toBeUndefined();
+    await expect(semaphore.acquire({ timeoutMs: 1 })).rejects.toBeInstanceOf(
+      TimeoutException
+    );
+    semaphore.release(handle);
+
+    expect(observer.events).toContain("aborted slots acquire false");
+    expect(observer.events).toContain("aborted slots acquire true");
+  });
+
+  it("reports read and write locks separately", async () => {
+    const rwmutex = new RWMutex({ name: "table" });
+    const reader = await rwmutex.acquireRead();
+    rwmutex.releaseRead(reader);
+    const writer = await rwmutex.acquireWrite();
+    const downgraded = rwmutex.downgrade(writer);
+    rwmutex.releaseRead(downgraded);
+
+    expect(observer.events).toEqual([
+      "requested table read",
+      "granted table read",
+      "released table read",
+      "requested table write",
+      "granted table write",
+      "released table write",
+      "requested table read",
+      "granted table read",
+      "released table read",
+    ]);
+  });
+
+  it("reports channel rendezvous and closes", async () => {
+    const channel = new Channel<number>({ name: "jobs" });
+    const read = channel.read();
+    await channel.write(1);
+    expect(await read).toEqual(1);
+    channel.close();
+    channel.close();
+
+    expect(observer.events).toEqual([
+      "rendezvous jobs write",
+      "rendezvous jobs read",
+      "closed Channel jobs",
+    ]);
+  });
+
+  it("stops reporting once the observer is removed", async () => {
+    removeObserver(observer);
+    const mutex = new Mutex();
+    mutex.release(await mutex.acquire());
+    expect(observer.events).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { CountDownLatch } from "../src/latch";
+import { sleep } from "../src/sleep";
+
+describe("count down latches", () => {
+  it("opens once counted down to zero", async () => {
+    const latch = new CountDownLatch(2);
+    let opened = false;
+    const wait = latch.wait().then((result) => (opened = result));
+
+    latch.countDown();
+    await sleep(1);
+    expect(opened).toBe(false);
+    expect(latch.count).toEqual(1);
+
+    latch.countDown();
+    await wait;
+    expect(opened).toBe(true);
+  });
+
+  it("stays open forever", async () => {
+    const latch = new CountDownLatch(1);
+    latch.countDown();
+    latch.countDown();
+    expect(latch.count).toEqual(0);
+    expect(await latch.wait()).toBe(true);
+    expect(await new CountDownLatch(0).wait()).toBe(true);
+  });
+
+  it("can be aborted", async () => {
+    const latch = new CountDownLatch(1);
+    const controller = new AbortController();
+    const wait = latch.wait(controller.signal);
+    expect(latch.waiting).toEqual(1);
+    controller.abort();
+    expect(await wait).toBe(false);
+    expect(latch.waiting).toEqual(0);
+  });
+
+  it("rejects invalid counts", () => {
+    expect(() => new CountDownLatch(-1)).toThrow(RangeError);
+    expect(() => new CountDownLatch(1.5)).toThrow(RangeError);
+  });
+});
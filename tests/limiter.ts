@@ -0,0 +1,128 @@
+import { AdaptiveLimiter, AimdLimit, GradientLimit } from "../src/limiter";
+import { sleep } from "../src/sleep";
+
+describe("adaptive limiter", () => {
+  it("limits concurrency to the current limit", async () => {
+    const limiter = new AdaptiveLimiter({ initialLimit: 2 });
+    const first = await limiter.acquire();
+    const second = await limiter.acquire();
+    expect(limiter.inFlight).toEqual(2);
+
+    let acquired = false;
+    const thirdPromise = limiter.acquire().then((permit) => {
+      acquired = true;
+      return permit;
+    });
+    await sleep(1);
+    expect(acquired).toBe(false);
+    expect(limiter.waiting).toEqual(1);
+
+    first?.ignore();
+    const third = await thirdPromise;
+    second?.ignore();
+    third?.ignore();
+    expect(limiter.inFlight).toEqual(0);
+  });
+
+  it("grows additively on success and backs off on drops", async () => {
+    const limiter = new AdaptiveLimiter({
+      initialLimit: 4,
+      algorithm: new AimdLimit({ backoffRatio: 0.5 }),
+    });
+
+    const permits = [
+      await limiter.acquire(),
+      await limiter.acquire(),
+      await limiter.acquire(),
+    ];
+    permits[0]?.success();
+    expect(limiter.limit).toEqual(5);
+    // Settling twice has no further effect.
+    permits[0]?.dropped();
+    expect(limiter.limit).toEqual(5);
+
+    permits[1]?.dropped();
+    expect(limiter.limit).toEqual(2);
+
+    // Only one operation is in flight, which doesn't use enough of the limit to grow it.
+    permits[2]?.success();
+    expect(limiter.limit).toEqual(2);
+  });
+
+  it("treats errors as drops and slow operations as overload", async () => {
+    const limiter = new AdaptiveLimiter({
+      initialLimit: 2,
+      minLimit: 1,
+      algorithm: new AimdLimit({ backoffRatio: 0.5, latencyThresholdMs: 5 }),
+    });
+
+    await expect(
+      limiter.withPermit(async () => {
+        throw new Error("unavailable");
+      })
+    ).rejects.toThrow("unavailable");
+    expect(limiter.limit).toEqual(1);
+
+    const result = await limiter.withPermit(async () => {
+      await sleep(20);
+      return "slow";
+    });
+    expect(result).toEqual({ status: "acquired", result: "slow" });
+    expect(limiter.limit).toEqual(1);
+    expect(limiter.inFlight).toEqual(0);
+  });
+
+  it("ignores errors that are not drops", async () => {
+    const limiter = new AdaptiveLimiter({ initialLimit: 4 });
+    await expect(
+      limiter.withPermit(
+        async () => {
+          throw new Error("not found");
+        },
+        undefined,
+        undefined,
+        () => false
+      )
+    ).rejects.toThrow("not found");
+    expect(limiter.limit).toEqual(4);
+  });
+
+  it("supports cancellation", async () => {
+    const limiter = new AdaptiveLimiter({ initialLimit: 1 });
+    const permit = await limiter.acquire();
+
+    const controller = new AbortController();
+    const resultPromise = limiter.withPermit(async () => {
+      fail("Should not have run");
+    }, controller.signal);
+    controller.abort();
+    expect(await resultPromise).toEqual({ status: "aborted" });
+    permit?.success();
+  });
+
+  it("shrinks a gradient limit when latency rises", () => {
+    const algorithm = new GradientLimit({ smoothing: 1 });
+    let limit = 16;
+    for (let i = 0; i < 10; i++) {
+      limit = algorithm.update(
+        { latencyMs: 10, inFlight: limit, dropped: false },
+        limit
+      );
+    }
+    expect(limit).toBeGreaterThan(16);
+
+    const grown = limit;
+    limit = algorithm.update(
+      { latencyMs: 100, inFlight: limit, dropped: false },
+      limit
+    );
+    expect(limit).toBeLessThan(grown);
+  });
+
+  it("rejects inconsistent limits", () => {
+    expect(() => new AdaptiveLimiter({ minLimit: 0 })).toThrow(RangeError);
+    expect(
+      () => new AdaptiveLimiter({ initialLimit: 20, maxLimit: 10 })
+    ).toThrow(RangeError);
+  });
+});
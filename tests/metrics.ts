@@ -0,0 +1,91 @@
+import { Channel } from "../src/channel";
+import { addObserver, removeObserver } from "../src/instrumentation";
+import { MetricsAggregator } from "../src/metrics";
+import { Mutex } from "../src/mutex";
+import { sleep } from "../src/sleep";
+
+describe("metrics", () => {
+  let metrics: MetricsAggregator;
+  beforeEach(() => {
+    metrics = new MetricsAggregator({ bucketsMs: [1, 1000] });
+    addObserver(metrics);
+  });
+  afterEach(() => removeObserver(metrics));
+
+  it("tracks waiting and held gauges", async () => {
+    const mutex = new Mutex({ name: "cache" });
+    const handle = await mutex.acquire();
+    const controller = new AbortController();
+    const waiting = mutex.acquire(controller.signal);
+
+    expect(metrics.snapshot().operations).toEqual([
+      expect.objectContaining({
+        kind: "Mutex",
+        name: "cache",
+        operation: "acquire",
+        waiting: 1,
+        held: 1,
+      }),
+    ]);
+
+    controller.abort();
+    await waiting;
+    mutex.release(handle);
+    expect(metrics.snapshot().operations[0]).toMatchObject({
+      waiting: 0,
+      held: 0,
+      aborted: 1,
+      timedOut: 0,
+    });
+  });
+
+  it("records wait and hold durations in histograms", async () => {
+    const mutex = new Mutex();
+    const handle = await mutex.acquire();
+    const waiting = mutex.acquire();
+    await sleep(5);
+    mutex.release(handle);
+    mutex.release(await waiting);
+
+    const [{ wait, hold }] = metrics.snapshot().operations;
+    expect(wait.count).toEqual(2);
+    expect(wait.buckets.map((b) => b.le)).toEqual([1, 1000, Infinity]);
+    // Only the second acquisition waited for the first to be released.
+    expect(wait.buckets[1].count - wait.buckets[0].count).toEqual(1);
+    expect(wait.buckets[2].count).toEqual(2);
+    expect(wait.sum).toBeGreaterThanOrEqual(4);
+    expect(hold.count).toEqual(2);
+  });
+
+  it("formats metrics for Prometheus", async () => {
+    const channel = new Channel<number>({ name: 'say "hi"', capacity: 1 });
+    await channel.write(1);
+    channel.close();
+    await new Mutex().acquire();
+
+    const text = metrics.toPrometheus();
+    expect(text).toContain(
+      "# TYPE concurrency_wait_milliseconds histogram\n"
+    );
+    expect(text).toContain(
+      'concurrency_wait_milliseconds_bucket{kind="Channel",' +
+        'name="say \\"hi\\"",operation="write",le="+Inf"} 1\n'
+    );
+    expect(text).toContain(
+      "concurrency_wait_milliseconds_count" +
+        '{kind="Mutex",operation="acquire"} 1\n'
+    );
+    expect(text).toContain(
+      'concurrency_held{kind="Mutex",operation="acquire"} 1\n'
+    );
+    expect(text).toContain(
+      'concurrency_closed_total{kind="Channel",name="say \\"hi\\""} 1\n'
+    );
+  });
+
+  it("rejects buckets out of order", () => {
+    expect(() => new MetricsAggregator({ bucketsMs: [5, 1] })).toThrow(
+      RangeError
+    );
+  });
+});
@@ -1,4 +1,7 @@
+import "../src/polyfill";
+import { VirtualClock } from "../src/clock";
 import { Mutex } from "../src/mutex";
+import { TimeoutException } from "../src/timeout";
 
 describe("mutex", () => {
   it("locks and unlocks", async () => {
@@ -69,4 +72,124 @@ describe("mutex", () => {
     const verifyResult = await verifyPromise;
     expect(verifyResult.status).toEqual("acquired");
   });
+
+  it("hands the lock to waiters in order with the fifo policy", async () => {
+    const mutex = new Mutex({ policy: "fifo" });
+    const firstHandle = await mutex.acquire();
+
+    const order: number[] = [];
+    const waiters = [0, 1, 2].map((i) =>
+      mutex.withLock(async () => {
+        order.push(i);
+      })
+    );
+
+    mutex.release(firstHandle);
+    // A new caller must not barge ahead of the existing waiters.
+    const latecomer = mutex.withLock(async () => {
+      order.push(3);
+    });
+
+    await Promise.all([...waiters, latecomer]);
+    expect(order).toEqual([0, 1, 2, 3]);
+  });
+
+  it("does not release twice with a handed-off handle", async () => {
+    const mutex = new Mutex();
+    const firstHandle = await mutex.acquire();
+    const secondHandlePromise = mutex.acquire();
+
+    mutex.release(firstHandle);
+    mutex.release(firstHandle);
+
+    const secondHandle = await secondHandlePromise;
+    expect(secondHandle).toBeDefined();
+    expect(secondHandle).not.toEqual(firstHandle);
+
+    const controller = new AbortController();
+    const thirdHandlePromise = mutex.acquire(controller.signal);
+    setImmediate(() => controller.abort());
+    expect(await thirdHandlePromise).toBeUndefined();
+
+    mutex.release(secondHandle);
+  });
+
+  it("releases disposable handles at the end of their scope", async () => {
+    const mutex = new Mutex();
+    {
+      await using lock = await mutex.lock();
+      expect(lock).toBeDefined();
+      expect(lock?.isReleased).toBe(false);
+
+      const controller = new AbortController();
+      const blockedPromise = mutex.lock(controller.signal);
+      setImmediate(() => controller.abort());
+      expect(await blockedPromise).toBeUndefined();
+    }
+
+    const nextLock = await mutex.lock();
+    expect(nextLock).toBeDefined();
+    nextLock?.release();
+    expect(nextLock?.isReleased).toBe(true);
+  });
+
+  it("never releases a later acquisition with an old disposable handle", async () => {
+    const mutex = new Mutex();
+    const firstLock = await mutex.lock();
+    firstLock?.release();
+
+    const secondLock = await mutex.lock();
+    firstLock?.release();
+    firstLock?.[Symbol.dispose]();
+
+    const controller = new AbortController();
+    const blockedPromise = mutex.lock(controller.signal);
+    setImmediate(() => controller.abort());
+    expect(await blockedPromise).toBeUndefined();
+
+    secondLock?.release();
+  });
+
+  it("distinguishes timeouts from aborts", async () => {
+    const mutex = new Mutex();
+    const handle = await mutex.acquire();
+
+    await expect(mutex.acquire({ timeoutMs: 5 })).rejects.toBeInstanceOf(
+      TimeoutException
+    );
+    const controller = new AbortController();
+    controller.abort();
+    expect(
+      await mutex.withLock(async () => {}, {
+        signal: controller.signal,
+        timeoutMs: 5,
+      })
+    ).toEqual({ status: "aborted" });
+    const timedOut = await mutex.withLock(async () => {
+      fail("Should not have run");
+    }, { timeoutMs: 5 });
+    expect(timedOut).toEqual({ status: "timedOut" });
+
+    mutex.release(handle);
+    expect(await mutex.withLock(async () => 1, { timeoutMs: 5 })).toEqual({
+      status: "acquired",
+      result: 1,
+    });
+  });
+
+  it("gives up at a deadline on the given clock", async () => {
+    const clock = new VirtualClock({ startTime: 1000 });
+    const mutex = new Mutex();
+    const handle = await mutex.acquire();
+
+    let settled = false;
+    const lockPromise = mutex
+      .withLock(async () => {}, { deadline: 1100, clock })
+      .finally(() => (settled = true));
+    await clock.advance(99);
+    expect(settled).toBe(false);
+    await clock.advance(1);
+    expect(await lockPromise).toEqual({ status: "timedOut" });
+    mutex.release(handle);
+  });
 });
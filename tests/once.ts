@@ -0,0 +1,67 @@
+import { Once, lazyAsync } from "../src/once";
+import { CallCancelledException } from "../src/singleflight";
+import { sleep } from "../src/sleep";
+
+describe("once", () => {
+  it("runs once, even when callers race", async () => {
+    const once = new Once<number>();
+    let runs = 0;
+    const init = async () => {
+      await sleep(1);
+      return ++runs;
+    };
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => once.do(init))
+    );
+    expect(results).toEqual(Array(10).fill(1));
+    expect(once.isDone).toBe(true);
+    expect(await once.do(init)).toEqual(1);
+    expect(runs).toEqual(1);
+  });
+
+  it("retries after a failure", async () => {
+    const once = new Once();
+    let attempts = 0;
+    const init = async () => {
+      if (++attempts === 1) throw new Error("first attempt fails");
+    };
+
+    await expect(once.do(init)).rejects.toThrow("first attempt fails");
+    expect(once.isDone).toBe(false);
+    await once.do(init);
+    expect(once.isDone).toBe(true);
+    expect(attempts).toEqual(2);
+  });
+
+  it("lets callers stop waiting without cancelling the run", async () => {
+    const once = new Once<string>();
+    const init = async (signal: AbortSignal) => {
+      await sleep(5, signal);
+      return signal.aborted ? "cancelled" : "ready";
+    };
+
+    const controller = new AbortController();
+    const leaving = once.do(init, controller.signal);
+    const staying = once.do(init);
+    controller.abort();
+    await expect(leaving).rejects.toThrow(CallCancelledException);
+    expect(await staying).toEqual("ready");
+  });
+});
+
+describe("lazyAsync", () => {
+  it("initializes lazily, once", async () => {
+    let runs = 0;
+    const connection = lazyAsync(async () => {
+      runs++;
+      return { connected: true };
+    });
+    expect(runs).toEqual(0);
+
+    const [first, second] = await Promise.all([connection(), connection()]);
+    expect(first).toBe(second);
+    expect(await connection()).toBe(first);
+    expect(runs).toEqual(1);
+  });
+});
@@ -0,0 +1,217 @@
+import { Channel } from "../src/channel";
+import {
+  JobCancelledException,
+  WorkerPool,
+  WorkerPoolClosedException,
+  WorkerPoolFullException,
+} from "../src/pool";
+import { sleep } from "../src/sleep";
+
+describe("worker pools", () => {
+  it("runs at most as many jobs at once as it has workers", async () => {
+    const pool = new WorkerPool({ workers: 2 });
+    let running = 0;
+    let maxRunning = 0;
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((value) =>
+        pool.submit(async () => {
+          maxRunning = Math.max(maxRunning, ++running);
+          await sleep(5);
+          running--;
+          return value * 10;
+        })
+      )
+    );
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(maxRunning).toEqual(2);
+    expect(pool.stats).toMatchObject({ completed: 5, failed: 0, active: 0 });
+  });
+
+  it("starts queued jobs in priority order", async () => {
+    const pool = new WorkerPool();
+    const gate = new Channel<void>();
+    const started: string[] = [];
+    const job = (label: string) => async () => {
+      started.push(label);
+      if (label === "first") await gate.read();
+    };
+
+    const first = pool.submit(job("first"));
+    await sleep(1);
+    const rest = [
+      pool.submit(job("low"), { priority: 1 }),
+      pool.submit(job("high"), { priority: 5 }),
+      pool.submit(job("default")),
+    ];
+    await sleep(1);
+    expect(pool.stats).toMatchObject({ queued: 3, active: 1 });
+
+    await gate.write();
+    await Promise.all([first, ...rest]);
+    expect(started).toEqual(["first", "high", "low", "default"]);
+  });
+
+  it("counts failed jobs and rethrows their errors", async () => {
+    const pool = new WorkerPool();
+    await expect(
+      pool.submit(async () => {
+        throw new Error("job failed");
+      })
+    ).rejects.toThrow("job failed");
+    expect(await pool.submit(async () => "ok")).toEqual("ok");
+    expect(pool.stats).toMatchObject({ completed: 1, failed: 1 });
+  });
+
+  it("rejects jobs once the queue is full", async () => {
+    const pool = new WorkerPool({ queueSize: 1 });
+    const gate = new Channel<void>();
+    const running = pool.submit(() => gate.read());
+    const queued = pool.submit(async () => "queued");
+
+    await expect(pool.submit(async () => "rejected")).rejects.toThrow(
+      WorkerPoolFullException
+    );
+    expect(pool.stats).toMatchObject({ queued: 1, rejected: 1 });
+
+    await gate.write();
+    await running;
+    expect(await queued).toEqual("queued");
+  });
+
+  it("drops the oldest queued job to make room", async () => {
+    const pool = new WorkerPool({ queueSize: 1, queueFull: "dropOldest" });
+    const gate = new Channel<void>();
+    const running = pool.submit(() => gate.read());
+    const dropped = pool.submit(async () => "dropped");
+    const kept = pool.submit(async () => "kept");
+
+    await expect(dropped).rejects.toThrow(WorkerPoolFullException);
+    await gate.write();
+    await running;
+    expect(await kept).toEqual("kept");
+    expect(pool.stats).toMatchObject({ completed: 2, rejected: 1 });
+  });
+
+  it("blocks submissions until the queue has room", async () => {
+    const pool = new WorkerPool({ queueSize: 0, queueFull: "block" });
+    const gate = new Channel<void>();
+    const running = pool.submit(() => gate.read());
+
+    let started = false;
+    const blocked = pool.submit(async () => (started = true));
+    await sleep(1);
+    expect(started).toBe(false);
+    expect(pool.stats.queued).toEqual(0);
+
+    await gate.write();
+    await running;
+    await blocked;
+    expect(started).toBe(true);
+  });
+
+  it("removes cancelled jobs from the queue", async () => {
+    const pool = new WorkerPool();
+    const gate = new Channel<void>();
+    const running = pool.submit(() => gate.read());
+
+    const controller = new AbortController();
+    let started = false;
+    const cancelled = pool.submit(async () => (started = true), {
+      signal: controller.signal,
+    });
+    await sleep(1);
+    controller.abort();
+    await expect(cancelled).rejects.toThrow(JobCancelledException);
+    expect(pool.stats.queued).toEqual(0);
+
+    await gate.write();
+    await running;
+    expect(started).toBe(false);
+  });
+
+  it("starts the next job when a queued one is cancelled as a worker frees up", async () => {
+    const pool = new WorkerPool({ workers: 1 });
+    const gate = new Channel<void>();
+    const running = pool.submit(() => gate.read());
+    const controller = new AbortController();
+    const cancelled = pool.submit(async () => "cancelled", {
+      signal: controller.signal,
+    });
+    const next = pool.submit(async () => "next");
+    await sleep(1);
+
+    const finishing = gate.write();
+    controller.abort();
+    await finishing;
+    await running;
+    await expect(cancelled).rejects.toThrow(JobCancelledException);
+    expect(await next).toEqual("next");
+    expect(pool.stats).toMatchObject({ queued: 0, active: 0 });
+  });
+
+  it("grows and shrinks the number of workers", async () => {
+    const pool = new WorkerPool({ workers: 1 });
+    const gate = new Channel<void>();
+    const jobs = [1, 2, 3].map(() => pool.submit(() => gate.read()));
+    await sleep(1);
+    expect(pool.stats).toMatchObject({ active: 1, queued: 2 });
+
+    pool.resize(3);
+    await sleep(1);
+    expect(pool.stats).toMatchObject({ active: 3, queued: 0, workers: 3 });
+
+    pool.resize(1);
+    const more = [4, 5].map(() => pool.submit(() => gate.read()));
+    for (let i = 0; i < 3; i++) await gate.write();
+    await Promise.all(jobs);
+    await sleep(1);
+    expect(pool.stats).toMatchObject({ active: 1, queued: 1 });
+
+    await gate.write();
+    await gate.write();
+    await Promise.all(more);
+    expect(() => pool.resize(0)).toThrow(RangeError);
+  });
+
+  it("drains queued and running jobs before stopping", async () => {
+    const pool = new WorkerPool();
+    const finished: number[] = [];
+    const jobs = [1, 2, 3].map((value) =>
+      pool.submit(async () => {
+        await sleep(2);
+        finished.push(value);
+      })
+    );
+
+    const drained = pool.drain();
+    await expect(pool.submit(async () => {})).rejects.toThrow(
+      WorkerPoolClosedException
+    );
+    expect(pool.isRunning).toBe(false);
+    expect(await drained).toBe(true);
+    await Promise.all(jobs);
+    expect(finished).toEqual([1, 2, 3]);
+  });
+
+  it("aborts running jobs and rejects queued ones on shutdown", async () => {
+    const pool = new WorkerPool();
+    let reason: unknown = undefined;
+    const running = pool.submit(
+      (signal) =>
+        new Promise<void>((resolve) =>
+          signal.addEventListener("abort", () => {
+            reason = signal.reason;
+            resolve();
+          })
+        )
+    );
+    const queued = pool.submit(async () => "never");
+    await sleep(1);
+
+    await pool.shutdown();
+    await running;
+    expect(reason).toBeInstanceOf(WorkerPoolClosedException);
+    await expect(queued).rejects.toThrow(WorkerPoolClosedException);
+    expect(pool.stats).toMatchObject({ active: 0, queued: 0 });
+  });
+});
@@ -0,0 +1,176 @@
+import path from "path";
+import { MessageChannel, Worker } from "worker_threads";
+import {
+  ChannelClosedException,
+  ReadCancelledException,
+} from "../src/channel";
+import { PortChannel } from "../src/port";
+import { sleep } from "../src/sleep";
+
+function connect<T>(capacity = 0): [PortChannel<T>, PortChannel<T>] {
+  const { port1, port2 } = new MessageChannel();
+  return [
+    PortChannel.sender<T>(port1),
+    PortChannel.receiver<T>(port2, { capacity }),
+  ];
+}
+
+async function collect<T>(channel: PortChannel<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of channel.iterate()) values.push(value);
+  return values;
+}
+
+describe("port channels", () => {
+  it("delivers values in order until the sending end closes", async () => {
+    const [sender, receiver] = connect<number>();
+    const values = collect(receiver);
+    for (const value of [1, 2, 3]) await sender.write(value);
+    sender.close();
+    expect(await values).toEqual([1, 2, 3]);
+    expect(receiver.isClosed).toBe(true);
+  });
+
+  it("blocks writes until a remote reader is ready", async () => {
+    const [sender, receiver] = connect<string>();
+    let written = false;
+    const write = sender.write("hello").then(() => (written = true));
+    await sleep(10);
+    expect(written).toBe(false);
+
+    expect(await receiver.read()).toEqual("hello");
+    await write;
+    expect(written).toBe(true);
+    receiver.close();
+  });
+
+  it("takes back the credit of an aborted read", async () => {
+    const [sender, receiver] = connect<string>();
+    const controller = new AbortController();
+    const aborted = receiver.read(controller.signal);
+    await sleep(10);
+    controller.abort();
+    await expect(aborted).rejects.toThrow(ReadCancelledException);
+    await sleep(10);
+
+    let written = false;
+    const write = sender.write("hello").then(() => (written = true));
+    await sleep(10);
+    expect(written).toBe(false);
+
+    expect(await receiver.read()).toEqual("hello");
+    await write;
+    receiver.close();
+  });
+
+  it("requests values ahead of reads with a receiving capacity", async () => {
+    const [sender, receiver] = connect<number>(2);
+    await sender.write(1);
+    await sender.write(2);
+
+    let written = false;
+    const third = sender.write(3).then(() => (written = true));
+    await sleep(10);
+    expect(written).toBe(false);
+
+    expect(await receiver.read()).toEqual(1);
+    await third;
+    sender.close();
+    expect(await collect(receiver)).toEqual([2, 3]);
+  });
+
+  it("closes the sending end when the receiving end closes", async () => {
+    const [sender, receiver] = connect<number>();
+    const write = sender.write(1);
+    receiver.close();
+    await expect(write).rejects.toThrow(ChannelClosedException);
+    expect(sender.isClosed).toBe(true);
+  });
+
+  it("passes the sending end's close reason to a waiting reader", async () => {
+    const [sender, receiver] = connect<number>();
+    const read = receiver.read();
+    await sleep(10);
+    sender.close(new Error("producer failed"));
+    await expect(read).rejects.toThrow("producer failed");
+    expect(receiver.isClosed).toBe(true);
+  });
+
+  it("closes without a reason that can't be cloned", async () => {
+    const [sender, receiver] = connect<number>();
+    const read = receiver.read();
+    await sleep(10);
+    sender.close(() => "not cloneable");
+    await expect(read).rejects.toThrow(ChannelClosedException);
+  });
+
+  it("fails both ends when a value can't be cloned", async () => {
+    const [sender, receiver] = connect<unknown>();
+    const read = receiver.read();
+    await sender.write(() => 1);
+    await expect(read).rejects.toThrow("could not be cloned");
+    await expect(sender.write(2)).rejects.toThrow("could not be cloned");
+    expect(sender.isClosed).toBe(true);
+  });
+
+  it("fails both ends when the transfer option throws", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const sender = PortChannel.sender<number>(port1, {
+      transfer: () => {
+        throw new Error("transfer failed");
+      },
+    });
+    const receiver = PortChannel.receiver<number>(port2);
+    const read = receiver.read();
+    await sender.write(1);
+    await expect(read).rejects.toThrow("transfer failed");
+    await expect(sender.write(2)).rejects.toThrow("transfer failed");
+  });
+
+  it("delivers buffered values before closing", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const sender = PortChannel.sender<number>(port1, { capacity: 3 });
+    for (const value of [1, 2, 3]) await sender.write(value);
+    sender.close();
+
+    const receiver = PortChannel.receiver<number>(port2);
+    expect(await collect(receiver)).toEqual([1, 2, 3]);
+  });
+
+  it("transfers values listed by the transfer option", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const sender = PortChannel.sender<ArrayBuffer>(port1, {
+      transfer: (buffer) => [buffer],
+    });
+    const receiver = PortChannel.receiver<ArrayBuffer>(port2);
+
+    const buffer = new Uint8Array([1, 2, 3]).buffer;
+    const received = receiver.read();
+    await sender.write(buffer);
+    expect([...new Uint8Array(await received)]).toEqual([1, 2, 3]);
+    expect(buffer.byteLength).toEqual(0);
+    sender.close();
+  });
+
+  it("bridges channels to worker threads", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const portModule = path.join(__dirname, "../src/port");
+    const worker = new Worker(
+      `
+      const { workerData } = require("worker_threads");
+      const { PortChannel } = require(${JSON.stringify(portModule)});
+      (async () => {
+        const results = PortChannel.sender(workerData.port);
+        for (let i = 1; i <= 5; i++) await results.write(i * i);
+        results.close();
+      })();
+      `,
+      { eval: true, workerData: { port: port2 }, transferList: [port2] }
+    );
+    const exited = new Promise((resolve) => worker.on("exit", resolve));
+
+    const receiver = PortChannel.receiver<number>(port1);
+    expect(await collect(receiver)).toEqual([1, 4, 9, 16, 25]);
+    expect(await exited).toEqual(0);
+  });
+});
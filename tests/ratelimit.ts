@@ -0,0 +1,138 @@
+import { VirtualClock } from "../src/clock";
+import { SlidingWindowLimiter, TokenBucket } from "../src/ratelimit";
+import { sleep } from "../src/sleep";
+import { TimeoutException } from "../src/timeout";
+
+describe("token bucket", () => {
+  it("allows a burst, then refills at the configured rate", async () => {
+    const bucket = new TokenBucket({
+      tokensPerInterval: 1,
+      intervalMs: 20,
+      burst: 3,
+    });
+    expect(bucket.tryAcquire(3)).toBe(true);
+    expect(bucket.tryAcquire()).toBe(false);
+
+    const start = Date.now();
+    expect(await bucket.acquire()).toBe(true);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+
+    await sleep(100);
+    expect(bucket.available).toEqual(3);
+  });
+
+  it("serves waiters in arrival order", async () => {
+    const bucket = new TokenBucket({
+      tokensPerInterval: 1,
+      intervalMs: 10,
+      burst: 2,
+      initialTokens: 0,
+    });
+
+    const order: string[] = [];
+    const largePromise = bucket.acquire(2).then(() => order.push("large"));
+    const smallPromise = bucket.acquire().then(() => order.push("small"));
+    expect(bucket.waiting).toEqual(2);
+    // Nobody can jump the queue, even once tokens are available.
+    await sleep(15);
+    expect(bucket.tryAcquire()).toBe(false);
+
+    await Promise.all([largePromise, smallPromise]);
+    expect(order).toEqual(["large", "small"]);
+    expect(bucket.waiting).toEqual(0);
+  });
+
+  it("supports cancellation", async () => {
+    const bucket = new TokenBucket({
+      tokensPerInterval: 1,
+      intervalMs: 10000,
+      initialTokens: 0,
+    });
+
+    const controller = new AbortController();
+    const headPromise = bucket.acquire(controller.signal);
+    const resultPromise = bucket.withPermit(async () => {
+      fail("Should not have run");
+    }, controller.signal);
+    controller.abort();
+
+    expect(await headPromise).toBe(false);
+    expect(await resultPromise).toEqual({ status: "aborted" });
+    expect(bucket.waiting).toEqual(0);
+  });
+
+  it("refills with a virtual clock", async () => {
+    const clock = new VirtualClock();
+    const bucket = new TokenBucket({
+      tokensPerInterval: 2,
+      intervalMs: 1000,
+      initialTokens: 0,
+      clock,
+    });
+
+    let acquired = false;
+    const acquirePromise = bucket.acquire(2).then(() => (acquired = true));
+    await clock.advance(999);
+    expect(acquired).toBe(false);
+    await clock.advance(1);
+    await acquirePromise;
+    expect(acquired).toBe(true);
+    expect(bucket.available).toEqual(0);
+  });
+
+  it("rejects acquisitions larger than the burst", async () => {
+    const bucket = new TokenBucket({ tokensPerInterval: 5 });
+    expect(() => bucket.tryAcquire(6)).toThrow(RangeError);
+    await expect(bucket.acquire(0)).rejects.toThrow(RangeError);
+    expect(await bucket.withPermits(5, async () => "done")).toEqual({
+      status: "acquired",
+      result: "done",
+    });
+  });
+});
+
+describe("sliding window limiter", () => {
+  it("limits tokens taken within any window", async () => {
+    const clock = new VirtualClock();
+    const limiter = new SlidingWindowLimiter({ limit: 2, windowMs: 30, clock });
+    expect(limiter.tryAcquire()).toBe(true);
+    await clock.advance(15);
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+    expect(limiter.available).toEqual(0);
+
+    // Only the first acquisition leaves the window before this one is allowed.
+    let acquired = false;
+    const acquirePromise = limiter.acquire().then(() => (acquired = true));
+    await clock.advance(14);
+    expect(acquired).toBe(false);
+    await clock.advance(1);
+    await acquirePromise;
+    expect(acquired).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+  });
+
+  it("wraps functions like Semaphore.withSlot", async () => {
+    const limiter = new SlidingWindowLimiter({ limit: 1, windowMs: 10 });
+    expect(await limiter.withPermit(async () => 1)).toEqual({
+      status: "acquired",
+      result: 1,
+    });
+    expect(await limiter.withPermit(async () => 2)).toEqual({
+      status: "acquired",
+      result: 2,
+    });
+  });
+
+  it("times out waiting for the next window", async () => {
+    const limiter = new SlidingWindowLimiter({ limit: 1, windowMs: 1000 });
+    expect(limiter.tryAcquire()).toBe(true);
+    await expect(limiter.acquire({ timeoutMs: 5 })).rejects.toBeInstanceOf(
+      TimeoutException
+    );
+    expect(
+      await limiter.withPermit(async () => {}, { timeoutMs: 5 })
+    ).toEqual({ status: "timedOut" });
+    expect(limiter.waiting).toEqual(0);
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  LockNotOwnedException,
+  ReentrantMutex,
+} from "../src/reentrantmutex";
+import { sleep } from "../src/sleep";
+
+describe("reentrant mutex", () => {
+  it("re-enters nested withLock calls", async () => {
+    const mutex = new ReentrantMutex();
+
+    const helper = async () =>
+      await mutex.withLock(async () => {
+        expect(mutex.holdCount).toEqual(2);
+        return "inner";
+      });
+
+    const result = await mutex.withLock(async () => {
+      expect(mutex.isHeldByCurrentTask).toBe(true);
+      const innerResult = await helper();
+      expect(mutex.holdCount).toEqual(1);
+      return innerResult;
+    });
+
+    expect(result).toEqual({
+      status: "acquired",
+      result: { status: "acquired", result: "inner" },
+    });
+    expect(mutex.isLocked).toBe(false);
+    expect(mutex.holdCount).toEqual(0);
+  });
+
+  it("re-enters acquire calls inside withLock", async () => {
+    const mutex = new ReentrantMutex();
+
+    await mutex.withLock(async () => {
+      await sleep(1);
+      const handle = mutex.acquire();
+      expect(mutex.holdCount).toEqual(2);
+      mutex.release(handle);
+      expect(mutex.holdCount).toEqual(1);
+      expect(mutex.isLocked).toBe(true);
+    });
+
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it("treats work started by the holder as the same task", async () => {
+    const mutex = new ReentrantMutex();
+
+    let childTask: Promise<unknown> | undefined;
+    await mutex.withLock(async () => {
+      childTask = sleep(1).then(() =>
+        mutex.withLock(async () => {
+          expect(mutex.holdCount).toEqual(2);
+        })
+      );
+      await sleep(5);
+    });
+
+    expect(await childTask).toEqual({ status: "acquired", result: undefined });
+  });
+
+  it("blocks other tasks while held", async () => {
+    const mutex = new ReentrantMutex();
+
+    let siblingRan = false;
+    const holder = mutex.withLock(async () => {
+      await sleep(5);
+      expect(siblingRan).toBe(false);
+    });
+    const sibling = mutex.withLock(async () => {
+      siblingRan = true;
+    });
+
+    await Promise.all([holder, sibling]);
+    expect(siblingRan).toBe(true);
+  });
+
+  it("only acquires again from inside withLock", async () => {
+    const mutex = new ReentrantMutex();
+    expect(() => mutex.acquire()).toThrow(LockNotOwnedException);
+    expect(() => mutex.lock()).toThrow(LockNotOwnedException);
+
+    await mutex.withLock(async () => {
+      const handle = mutex.lock();
+      expect(mutex.holdCount).toEqual(2);
+      handle.release();
+      expect(mutex.holdCount).toEqual(1);
+    });
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it("throws when releasing with a handle that does not hold the lock", async () => {
+    const mutex = new ReentrantMutex();
+    let handle: number | undefined;
+    await mutex.withLock(async () => {
+      handle = mutex.acquire();
+      expect(() => mutex.release(-1)).toThrow(LockNotOwnedException);
+      mutex.release(handle);
+    });
+    expect(() => mutex.release(handle)).toThrow(LockNotOwnedException);
+  });
+
+  it("throws when releasing from outside the holding task", async () => {
+    const mutex = new ReentrantMutex();
+
+    let innerHandle: number | undefined;
+    let resume: () => void = () => {};
+    const resumed = new Promise<void>((resolve) => (resume = resolve));
+    const holder = mutex.withLock(async () => {
+      innerHandle = mutex.acquire();
+      await resumed;
+      mutex.release(innerHandle);
+    });
+
+    await sleep(1);
+    expect(() => mutex.release(innerHandle)).toThrow(LockNotOwnedException);
+    resume();
+    await holder;
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it("supports cancellation", async () => {
+    const mutex = new ReentrantMutex();
+    let resume: () => void = () => {};
+    const resumed = new Promise<void>((resolve) => (resume = resolve));
+    const holder = mutex.withLock(() => resumed);
+
+    const controller = new AbortController();
+    const verifyPromise = mutex.withLock(async () => {
+      fail("Should not have run");
+    }, controller.signal);
+
+    controller.abort();
+    expect((await verifyPromise).status).toEqual("aborted");
+    resume();
+    await holder;
+  });
+});
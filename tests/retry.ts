@@ -0,0 +1,135 @@
+import { VirtualClock } from "../src/clock";
+import { RetryCancelledException, retry } from "../src/retry";
+
+// Fails `failures` times before returning "ok", recording when each
+// attempt started.
+function flaky(clock: VirtualClock, failures: number) {
+  const startedAt: number[] = [];
+  const fn = async () => {
+    startedAt.push(clock.now());
+    if (startedAt.length <= failures) throw new Error("transient");
+    return "ok";
+  };
+  return { fn, startedAt };
+}
+
+describe("retry", () => {
+  it("retries with exponential backoff", async () => {
+    const clock = new VirtualClock({ autoAdvance: true });
+    const { fn, startedAt } = flaky(clock, 3);
+    expect(await retry(fn, { attempts: 4, baseDelayMs: 100, clock })).toEqual(
+      "ok"
+    );
+    expect(startedAt).toEqual([0, 100, 300, 700]);
+  });
+
+  it("retries with linear backoff, capped at the maximum", async () => {
+    const clock = new VirtualClock({ autoAdvance: true });
+    const { fn, startedAt } = flaky(clock, 3);
+    await retry(fn, {
+      attempts: 4,
+      backoff: "linear",
+      baseDelayMs: 100,
+      maxDelayMs: 150,
+      clock,
+    });
+    expect(startedAt).toEqual([0, 100, 250, 400]);
+  });
+
+  it("keeps decorrelated jitter within its bounds", async () => {
+    const clock = new VirtualClock({ autoAdvance: true });
+    const { fn, startedAt } = flaky(clock, 5);
+    await retry(fn, {
+      attempts: 6,
+      backoff: "decorrelatedJitter",
+      baseDelayMs: 10,
+      maxDelayMs: 50,
+      clock,
+    });
+    const delays = startedAt.slice(1).map((at, i) => at - startedAt[i]);
+    expect(delays.length).toEqual(5);
+    // The delays are differences of fractional times, so allow for rounding.
+    for (const delay of delays) {
+      expect(delay).toBeGreaterThanOrEqual(10 - 1e-9);
+      expect(delay).toBeLessThanOrEqual(50 + 1e-9);
+    }
+  });
+
+  it("rethrows the last error once out of attempts", async () => {
+    const clock = new VirtualClock({ autoAdvance: true });
+    const { fn, startedAt } = flaky(clock, 5);
+    await expect(retry(fn, { attempts: 3, clock })).rejects.toThrow(
+      "transient"
+    );
+    expect(startedAt.length).toEqual(3);
+  });
+
+  it("only retries errors accepted by retryIf", async () => {
+    const clock = new VirtualClock({ autoAdvance: true });
+    let calls = 0;
+    const fn = async () => {
+      calls++;
+      throw new Error(calls === 1 ? "transient" : "fatal");
+    };
+    await expect(
+      retry(fn, {
+        attempts: 5,
+        retryIf: (error) => (error as Error).message === "transient",
+        clock,
+      })
+    ).rejects.toThrow("fatal");
+    expect(calls).toEqual(2);
+  });
+
+  it("aborts each attempt's signal once the attempt is over", async () => {
+    const clock = new VirtualClock({ autoAdvance: true });
+    const signals: AbortSignal[] = [];
+    await retry(
+      async (signal, attempt) => {
+        signals.push(signal);
+        if (attempt === 1) throw new Error("transient");
+      },
+      { clock }
+    );
+    expect(signals.length).toEqual(2);
+    expect(signals[0]).not.toBe(signals[1]);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it("stops during a backoff when cancelled", async () => {
+    const clock = new VirtualClock();
+    const controller = new AbortController();
+    const { fn, startedAt } = flaky(clock, 5);
+    const retrying = retry(fn, { signal: controller.signal, clock });
+    const rejected = expect(retrying).rejects.toThrow(RetryCancelledException);
+
+    await clock.advance(50);
+    controller.abort();
+    await rejected;
+    expect(startedAt).toEqual([0]);
+    expect(clock.pendingTimers).toEqual(0);
+  });
+
+  it("rethrows the error of an attempt that was cancelled", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const retrying = retry(
+      (signal) => {
+        calls++;
+        return new Promise((_, reject) =>
+          signal.addEventListener("abort", () =>
+            reject(new Error("attempt aborted"))
+          )
+        );
+      },
+      { signal: controller.signal }
+    );
+    controller.abort();
+    await expect(retrying).rejects.toThrow("attempt aborted");
+    expect(calls).toEqual(1);
+
+    await expect(
+      retry(async () => "never", { signal: controller.signal })
+    ).rejects.toThrow(RetryCancelledException);
+  });
+});
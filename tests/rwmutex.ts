@@ -0,0 +1,228 @@
+import "../src/polyfill";
+import { TimeoutException } from "../src/timeout";
+import { RWMutex } from "../src/rwmutex";
+import { sleep } from "../src/sleep";
+
+describe("reader-writer mutex", () => {
+  it("allows concurrent readers", async () => {
+    const rwmutex = new RWMutex();
+    const firstHandle = await rwmutex.acquireRead();
+    const secondHandle = await rwmutex.acquireRead();
+    expect(firstHandle).toBeDefined();
+    expect(secondHandle).toBeDefined();
+    expect(rwmutex.readers).toEqual(2);
+
+    rwmutex.releaseRead(firstHandle);
+    rwmutex.releaseRead(secondHandle);
+    expect(rwmutex.readers).toEqual(0);
+  });
+
+  it("excludes readers and writers while writing", async () => {
+    const rwmutex = new RWMutex();
+    const writeHandle = await rwmutex.acquireWrite();
+    expect(rwmutex.isWriteLocked).toBe(true);
+
+    let flag = false;
+    const readPromise = rwmutex.withReadLock(async () => {
+      expect(flag).toBe(true);
+    });
+    const writePromise = rwmutex.withWriteLock(async () => {
+      expect(flag).toBe(true);
+    });
+
+    await sleep(1);
+    flag = true;
+    rwmutex.releaseWrite(writeHandle);
+
+    expect((await readPromise).status).toEqual("acquired");
+    expect((await writePromise).status).toEqual("acquired");
+    expect(rwmutex.isWriteLocked).toBe(false);
+  });
+
+  it("waits for readers before writing", async () => {
+    const rwmutex = new RWMutex();
+    const readHandle = await rwmutex.acquireRead();
+
+    let flag = false;
+    const writePromise = rwmutex.withWriteLock(async () => {
+      expect(flag).toBe(true);
+      expect(rwmutex.readers).toEqual(0);
+    });
+
+    await sleep(1);
+    flag = true;
+    rwmutex.releaseRead(readHandle);
+    expect((await writePromise).status).toEqual("acquired");
+  });
+
+  it("supports cancellation", async () => {
+    const rwmutex = new RWMutex();
+    const writeHandle = await rwmutex.acquireWrite();
+
+    const controller = new AbortController();
+    const readPromise = rwmutex.withReadLock(async () => {
+      fail("Should not have run");
+    }, controller.signal);
+    const writePromise = rwmutex.withWriteLock(async () => {
+      fail("Should not have run");
+    }, controller.signal);
+
+    controller.abort();
+    expect((await readPromise).status).toEqual("aborted");
+    expect((await writePromise).status).toEqual("aborted");
+    rwmutex.releaseWrite(writeHandle);
+  });
+
+  it("holds new readers behind pending writers when preferring writers", async () => {
+    const rwmutex = new RWMutex({ preferWriters: true });
+    const firstReadHandle = await rwmutex.acquireRead();
+
+    const order: string[] = [];
+    const writePromise = rwmutex.withWriteLock(async () => {
+      order.push("write");
+    });
+    const readPromise = rwmutex.withReadLock(async () => {
+      order.push("read");
+    });
+
+    await sleep(1);
+    expect(order).toEqual([]);
+    rwmutex.releaseRead(firstReadHandle);
+
+    await Promise.all([writePromise, readPromise]);
+    expect(order).toEqual(["write", "read"]);
+  });
+
+  it("lets readers in when a pending writer aborts", async () => {
+    const rwmutex = new RWMutex({ preferWriters: true });
+    const firstReadHandle = await rwmutex.acquireRead();
+
+    const controller = new AbortController();
+    const writePromise = rwmutex.acquireWrite(controller.signal);
+    const readPromise = rwmutex.acquireRead();
+
+    controller.abort();
+    expect(await writePromise).toBeUndefined();
+    const secondReadHandle = await readPromise;
+    expect(secondReadHandle).toBeDefined();
+
+    rwmutex.releaseRead(firstReadHandle);
+    rwmutex.releaseRead(secondReadHandle);
+  });
+
+  it("upgrades a read handle once other readers leave", async () => {
+    const rwmutex = new RWMutex();
+    const upgradingHandle = await rwmutex.acquireRead();
+    const otherHandle = await rwmutex.acquireRead();
+
+    const upgradePromise = rwmutex.upgrade(upgradingHandle);
+    // Another upgrade would deadlock, so it fails immediately.
+    expect(await rwmutex.upgrade(otherHandle)).toBeUndefined();
+
+    let newReaderDone = false;
+    const newReaderPromise = rwmutex
+      .withReadLock(async () => {
+        expect(rwmutex.isWriteLocked).toBe(false);
+      })
+      .then(() => {
+        newReaderDone = true;
+      });
+
+    await sleep(1);
+    expect(newReaderDone).toBe(false);
+    rwmutex.releaseRead(otherHandle);
+
+    const writeHandle = await upgradePromise;
+    expect(writeHandle).toBeDefined();
+    expect(rwmutex.isWriteLocked).toBe(true);
+    expect(rwmutex.readers).toEqual(0);
+
+    rwmutex.releaseRead(upgradingHandle);
+    expect(rwmutex.isWriteLocked).toBe(true);
+    rwmutex.releaseWrite(writeHandle);
+    await newReaderPromise;
+  });
+
+  it("keeps the read handle when an upgrade aborts", async () => {
+    const rwmutex = new RWMutex();
+    const upgradingHandle = await rwmutex.acquireRead();
+    const otherHandle = await rwmutex.acquireRead();
+
+    const controller = new AbortController();
+    const upgradePromise = rwmutex.upgrade(upgradingHandle, controller.signal);
+    setImmediate(() => controller.abort());
+    expect(await upgradePromise).toBeUndefined();
+    expect(rwmutex.readers).toEqual(2);
+
+    rwmutex.releaseRead(otherHandle);
+    rwmutex.releaseRead(upgradingHandle);
+    expect(rwmutex.readers).toEqual(0);
+  });
+
+  it("downgrades a write handle without letting writers in", async () => {
+    const rwmutex = new RWMutex();
+    const writeHandle = await rwmutex.acquireWrite();
+
+    let writerDone = false;
+    const writerPromise = rwmutex
+      .withWriteLock(async () => {})
+      .then(() => {
+        writerDone = true;
+      });
+    const readPromise = rwmutex.acquireRead();
+
+    const readHandle = rwmutex.downgrade(writeHandle);
+    expect(readHandle).toBeDefined();
+    expect(rwmutex.isWriteLocked).toBe(false);
+    expect(rwmutex.downgrade(writeHandle)).toBeUndefined();
+
+    const otherReadHandle = await readPromise;
+    expect(rwmutex.readers).toEqual(2);
+    expect(writerDone).toBe(false);
+
+    rwmutex.releaseRead(readHandle);
+    rwmutex.releaseRead(otherReadHandle);
+    await writerPromise;
+    expect(writerDone).toBe(true);
+  });
+
+  it("releases disposable read and write locks", async () => {
+    const rwmutex = new RWMutex();
+    {
+      await using firstRead = await rwmutex.readLock();
+      await using secondRead = await rwmutex.readLock();
+      expect(firstRead).toBeDefined();
+      expect(secondRead).toBeDefined();
+      expect(rwmutex.readers).toEqual(2);
+    }
+    expect(rwmutex.readers).toEqual(0);
+
+    {
+      await using write = await rwmutex.writeLock();
+      expect(write).toBeDefined();
+      expect(rwmutex.isWriteLocked).toBe(true);
+    }
+    expect(rwmutex.isWriteLocked).toBe(false);
+  });
+
+  it("times out readers, writers and upgrades", async () => {
+    const rwmutex = new RWMutex();
+    const readHandle = await rwmutex.acquireRead();
+    const otherHandle = await rwmutex.acquireRead();
+
+    await expect(
+      rwmutex.acquireWrite({ timeoutMs: 5 })
+    ).rejects.toBeInstanceOf(TimeoutException);
+    await expect(
+      rwmutex.upgrade(readHandle, { timeoutMs: 5 })
+    ).rejects.toBeInstanceOf(TimeoutException);
+    expect(rwmutex.readers).toEqual(2);
+
+    rwmutex.releaseRead(otherHandle);
+    const writeHandle = await rwmutex.upgrade(readHandle, { timeoutMs: 5 });
+    expect(
+      await rwmutex.withReadLock(async () => {}, { timeoutMs: 5 })
+    ).toEqual({ status: "timedOut" });
+    rwmutex.releaseWrite(writeHandle);
+  });
+});
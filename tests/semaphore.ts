@@ -1,4 +1,7 @@
+import "../src/polyfill";
+import { TimeoutException } from "../src/timeout";
 import { Semaphore } from "../src/semaphore";
+import { sleep } from "../src/sleep";
 
 describe("semaphore", () => {
   it("only blocks when all counters are allocated", async () => {
@@ -41,6 +44,21 @@ describe("semaphore", () => {
     expect(semaphore.waiting).toEqual(0);
   });
 
+  it("stops counting an aborted acquisition as waiting", async () => {
+    const semaphore = new Semaphore(1);
+    const handle = await semaphore.acquire();
+    const controller = new AbortController();
+    const aborted = semaphore.acquire(controller.signal);
+    expect(semaphore.waiting).toEqual(1);
+
+    controller.abort();
+    expect(semaphore.waiting).toEqual(0);
+    expect(semaphore.waiting).toEqual(0);
+    expect(await aborted).toBeUndefined();
+    semaphore.release(handle);
+    expect(semaphore.available).toEqual(1);
+  });
+
   it("releases in withSlot when thrown", async () => {
     const semaphore = new Semaphore(2);
     const firstHandle = await semaphore.acquire();
@@ -88,4 +106,233 @@ describe("semaphore", () => {
 
     await secondHandlePromise;
   });
+
+  it("hands slots to waiters by priority with the priority policy", async () => {
+    const semaphore = new Semaphore(1, { policy: "priority" });
+    const firstHandle = await semaphore.acquire();
+
+    const order: number[] = [];
+    const waiters = [1, 10, 5].map((priority) =>
+      semaphore.withSlot(
+        async () => {
+          order.push(priority);
+        },
+        undefined,
+        priority
+      )
+    );
+    expect(semaphore.waiting).toEqual(3);
+
+    semaphore.release(firstHandle);
+    await Promise.all(waiters);
+    expect(order).toEqual([10, 5, 1]);
+  });
+
+  it("acquires the first handle in withSlot", async () => {
+    const semaphore = new Semaphore();
+    const result = await semaphore.withSlot(async () => 5);
+    expect(result).toEqual({ status: "acquired", result: 5 });
+  });
+
+  it("releases disposable slots at the end of their scope", async () => {
+    const semaphore = new Semaphore(1);
+    let firstHandle: number | undefined;
+    {
+      using slot = await semaphore.slot();
+      firstHandle = slot?.handle;
+      expect(firstHandle).toBeDefined();
+      expect(semaphore.waiting).toEqual(0);
+    }
+
+    const nextSlot = await semaphore.slot();
+    expect(nextSlot?.handle).not.toEqual(firstHandle);
+    semaphore.release(firstHandle);
+    expect(await semaphore.withSlot(async () => {}, AbortSignal.abort())).toEqual({
+      status: "aborted",
+    });
+    nextSlot?.release();
+  });
+
+  it("acquires multiple slots at once", async () => {
+    const semaphore = new Semaphore(8);
+    const largeHandle = await semaphore.acquire(6);
+    expect(largeHandle).toBeDefined();
+    expect(semaphore.available).toEqual(2);
+
+    let flag = false;
+    const blockedPromise = semaphore.withSlots(3, async () => {
+      expect(flag).toBe(true);
+      expect(semaphore.available).toEqual(5);
+    });
+    expect(semaphore.waiting).toEqual(1);
+
+    flag = true;
+    semaphore.release(largeHandle);
+    expect((await blockedPromise).status).toEqual("acquired");
+    expect(semaphore.available).toEqual(8);
+  });
+
+  it("does not starve large acquisitions behind small ones", async () => {
+    const semaphore = new Semaphore(4, { policy: "fifo" });
+    const firstHandle = await semaphore.acquire(2);
+
+    const order: string[] = [];
+    const largePromise = semaphore.withSlots(4, async () => {
+      order.push("large");
+    });
+    // Two slots are free, but the small acquisition queues behind the large one.
+    const smallPromise = semaphore.withSlot(async () => {
+      order.push("small");
+    });
+    expect(semaphore.waiting).toEqual(2);
+
+    semaphore.release(firstHandle);
+    await Promise.all([largePromise, smallPromise]);
+    expect(order).toEqual(["large", "small"]);
+  });
+
+  it("lets smaller waiters through when a blocking waiter aborts", async () => {
+    const semaphore = new Semaphore(4, { policy: "fifo" });
+    const firstHandle = await semaphore.acquire(2);
+
+    const controller = new AbortController();
+    const largePromise = semaphore.acquire(4, controller.signal);
+    const smallPromise = semaphore.acquire(2);
+
+    controller.abort();
+    expect(await largePromise).toBeUndefined();
+    const smallHandle = await smallPromise;
+    expect(smallHandle).toBeDefined();
+    expect(semaphore.available).toEqual(0);
+
+    semaphore.release(firstHandle);
+    semaphore.release(smallHandle);
+    expect(semaphore.available).toEqual(4);
+  });
+
+  it("skips a waiter that aborts in the same tick as a release", async () => {
+    const semaphore = new Semaphore(1, { policy: "fifo" });
+    const handle = await semaphore.acquire();
+    const controller = new AbortController();
+    const abortedPromise = semaphore.acquire(controller.signal);
+    const nextPromise = semaphore.acquire();
+
+    controller.abort();
+    semaphore.release(handle);
+    expect(await abortedPromise).toBeUndefined();
+    const nextHandle = await nextPromise;
+    expect(nextHandle).toBeDefined();
+    expect(semaphore.available).toEqual(0);
+    expect(semaphore.waiting).toEqual(0);
+
+    semaphore.release(nextHandle);
+    expect(semaphore.available).toEqual(1);
+  });
+
+  it("releases slots partially, but never more than were taken", async () => {
+    const semaphore = new Semaphore(4);
+    const handle = await semaphore.acquire(3);
+
+    semaphore.release(handle, 1);
+    expect(semaphore.available).toEqual(2);
+    expect(() => semaphore.release(handle, 3)).toThrow(RangeError);
+
+    semaphore.release(handle);
+    expect(semaphore.available).toEqual(4);
+    // The handle is no longer valid once all of its slots are released.
+    semaphore.release(handle);
+    expect(semaphore.available).toEqual(4);
+  });
+
+  it("rejects invalid permit counts", async () => {
+    const semaphore = new Semaphore(2);
+    await expect(semaphore.acquire(3)).rejects.toThrow(RangeError);
+    await expect(semaphore.acquire(0)).rejects.toThrow(RangeError);
+    await expect(semaphore.acquire(1.5)).rejects.toThrow(RangeError);
+  });
+
+  it("grows capacity and hands new slots to waiters", async () => {
+    const semaphore = new Semaphore(1);
+    const firstHandle = await semaphore.acquire();
+    const secondPromise = semaphore.acquire();
+    const thirdPromise = semaphore.acquire();
+
+    semaphore.setCapacity(3);
+    expect(semaphore.capacity).toEqual(3);
+    const handles = [firstHandle, await secondPromise, await thirdPromise];
+    expect(semaphore.available).toEqual(0);
+
+    for (const handle of handles) semaphore.release(handle);
+    expect(semaphore.available).toEqual(3);
+  });
+
+  it("blocks acquisitions after shrinking until enough slots are released", async () => {
+    const semaphore = new Semaphore(3, { policy: "fifo" });
+    const handles = [
+      await semaphore.acquire(),
+      await semaphore.acquire(),
+      await semaphore.acquire(),
+    ];
+
+    semaphore.setCapacity(1);
+    expect(semaphore.available).toEqual(0);
+
+    let acquired = false;
+    const waitPromise = semaphore.acquire().then((handle) => {
+      acquired = true;
+      return handle;
+    });
+
+    semaphore.release(handles[0]);
+    semaphore.release(handles[1]);
+    await sleep(1);
+    expect(acquired).toBe(false);
+
+    semaphore.release(handles[2]);
+    const handle = await waitPromise;
+    expect(acquired).toBe(true);
+    semaphore.release(handle);
+    expect(semaphore.available).toEqual(1);
+  });
+
+  it("keeps waiters larger than the capacity from blocking smaller ones", async () => {
+    const semaphore = new Semaphore(4, { policy: "fifo" });
+    const firstHandle = await semaphore.acquire(3);
+    const largePromise = semaphore.acquire(4);
+    const smallPromise = semaphore.acquire(1);
+    await sleep(1);
+
+    semaphore.setCapacity(2);
+    semaphore.release(firstHandle);
+    const smallHandle = await smallPromise;
+    expect(smallHandle).toBeDefined();
+
+    semaphore.release(smallHandle);
+    semaphore.setCapacity(4);
+    const largeHandle = await largePromise;
+    expect(largeHandle).toBeDefined();
+    expect(semaphore.available).toEqual(0);
+    semaphore.release(largeHandle);
+
+    expect(() => semaphore.setCapacity(0)).toThrow(RangeError);
+  });
+
+  it("times out acquisitions and slot helpers", async () => {
+    const semaphore = new Semaphore(2);
+    const handle = await semaphore.acquire(2);
+
+    await expect(semaphore.acquire({ timeoutMs: 5 })).rejects.toBeInstanceOf(
+      TimeoutException
+    );
+    expect(
+      await semaphore.withSlot(async () => {}, { timeoutMs: 5 })
+    ).toEqual({ status: "timedOut" });
+    expect(semaphore.waiting).toEqual(0);
+
+    semaphore.release(handle);
+    const result = await semaphore.withSlots(2, async () => 2, {
+      timeoutMs: 5,
+    });
+    expect(result).toEqual({ status: "acquired", result: 2 });
+  });
 });
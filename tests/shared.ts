@@ -0,0 +1,185 @@
+import "../src/polyfill";
+import path from "path";
+import { Worker } from "worker_threads";
+import { VirtualClock } from "../src/clock";
+import { SharedMutex, SharedSemaphore } from "../src/shared";
+import { TimeoutException } from "../src/timeout";
+
+const sharedModule = path.join(__dirname, "../src/shared");
+
+// Runs `body` in a worker, where it can use `shared` (the shared module),
+// `workerData`, and `pause()`, which waits for a turn of the event loop.
+function runWorker(body: string, workerData: unknown): Promise<void> {
+  const source = `
+    const { workerData } = require("worker_threads");
+    const shared = require(${JSON.stringify(sharedModule)});
+    const pause = () => new Promise((resolve) => setImmediate(resolve));
+    (async () => { ${body} })().catch((e) => {
+      process.exitCode = 1;
+      throw e;
+    });
+  `;
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(source, { eval: true, workerData });
+    worker.on("error", reject);
+    worker.on("exit", (code) =>
+      code === 0 ? resolve() : reject(new Error(`Worker exited with ${code}`))
+    );
+  });
+}
+
+describe("shared mutex", () => {
+  it("excludes other threads", async () => {
+    const mutex = new SharedMutex();
+    const counter = new Int32Array(new SharedArrayBuffer(4));
+    const workerData = { mutex: mutex.buffer, counter: counter.buffer };
+    const increment = `
+      const mutex = new shared.SharedMutex(workerData.mutex);
+      const counter = new Int32Array(workerData.counter);
+      for (let i = 0; i < 50; i++) {
+        await mutex.withLock(async () => {
+          const value = counter[0];
+          await pause();
+          counter[0] = value + 1;
+        });
+      }
+    `;
+
+    await Promise.all([
+      runWorker(increment, workerData),
+      runWorker(increment, workerData),
+      runWorker(increment, workerData),
+    ]);
+    expect(counter[0]).toEqual(150);
+  });
+
+  it("locks and unlocks within one thread", async () => {
+    const mutex = new SharedMutex();
+    const handle = await mutex.acquire();
+    expect(handle).toBeDefined();
+
+    let ran = false;
+    const waiting = mutex.withLock(async () => {
+      ran = true;
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(ran).toBe(false);
+
+    mutex.release(handle);
+    expect(await waiting).toEqual({ status: "acquired", result: undefined });
+    expect(ran).toBe(true);
+  });
+
+  it("only releases the handle that holds the lock", async () => {
+    const mutex = new SharedMutex();
+    const other = new SharedMutex(mutex.buffer);
+    const handle = await mutex.acquire();
+    other.release(handle);
+    mutex.release(handle! + 1);
+
+    const controller = new AbortController();
+    const blocked = other.acquire(controller.signal);
+    controller.abort();
+    expect(await blocked).toBeUndefined();
+
+    mutex.release(handle);
+    const lock = await other.lock();
+    expect(lock).toBeDefined();
+    lock![Symbol.dispose]();
+  });
+
+  it("wakes the remaining waiters when one is aborted", async () => {
+    const mutex = new SharedMutex();
+    const handle = await mutex.acquire();
+    const controller = new AbortController();
+    const aborted = mutex.acquire(controller.signal);
+    const waiting = mutex.acquire();
+
+    controller.abort();
+    expect(await aborted).toBeUndefined();
+    mutex.release(handle);
+    expect(await waiting).toBeDefined();
+  });
+
+  it("times out", async () => {
+    const clock = new VirtualClock();
+    const mutex = new SharedMutex();
+    await mutex.acquire();
+    const timedOut = expect(
+      mutex.acquire({ timeoutMs: 10, clock })
+    ).rejects.toThrow(TimeoutException);
+    await clock.advance(10);
+    await timedOut;
+    expect(await mutex.withLock(async () => {}, { timeoutMs: 0 })).toEqual({
+      status: "timedOut",
+    });
+  });
+});
+
+describe("shared semaphore", () => {
+  it("limits concurrency across threads", async () => {
+    const semaphore = new SharedSemaphore(2);
+    // Tracks the number of workers holding a slot, and the most at once.
+    const stats = new Int32Array(new SharedArrayBuffer(8));
+    const workerData = { semaphore: semaphore.buffer, stats: stats.buffer };
+    const work = `
+      const semaphore = new shared.SharedSemaphore(workerData.semaphore);
+      const stats = new Int32Array(workerData.stats);
+      for (let i = 0; i < 20; i++) {
+        await semaphore.withSlot(async () => {
+          const holding = Atomics.add(stats, 0, 1) + 1;
+          let most = Atomics.load(stats, 1);
+          while (holding > most) {
+            most = Atomics.compareExchange(stats, 1, most, holding);
+          }
+          await pause();
+          Atomics.sub(stats, 0, 1);
+        });
+      }
+    `;
+
+    await Promise.all([
+      runWorker(work, workerData),
+      runWorker(work, workerData),
+      runWorker(work, workerData),
+    ]);
+    expect(stats[0]).toEqual(0);
+    expect(stats[1]).toBeLessThanOrEqual(2);
+    expect(semaphore.available).toEqual(2);
+  });
+
+  it("acquires and releases multiple slots", async () => {
+    const semaphore = new SharedSemaphore(3);
+    const other = new SharedSemaphore(semaphore.buffer);
+    expect(other.capacity).toEqual(3);
+
+    const handle = await semaphore.acquire(2);
+    expect(other.available).toEqual(1);
+    const waiting = other.acquire(2);
+    semaphore.release(handle, 1);
+    expect(await waiting).toBeDefined();
+    expect(semaphore.available).toEqual(0);
+    semaphore.release(handle);
+    expect(semaphore.available).toEqual(1);
+  });
+
+  it("supports cancellation", async () => {
+    const semaphore = new SharedSemaphore(1);
+    const handle = await semaphore.acquire();
+    const controller = new AbortController();
+    const result = semaphore.withSlot(async () => "ran", controller.signal);
+    controller.abort();
+    expect(await result).toEqual({ status: "aborted" });
+    semaphore.release(handle);
+    expect(semaphore.available).toEqual(1);
+  });
+
+  it("rejects invalid slots and permits", async () => {
+    expect(() => new SharedSemaphore(0)).toThrow(RangeError);
+    expect(() => new SharedSemaphore(new SharedArrayBuffer(4))).toThrow(
+      RangeError
+    );
+    const semaphore = new SharedSemaphore(2);
+    await expect(semaphore.acquire(3)).rejects.toThrow(RangeError);
+  });
+});
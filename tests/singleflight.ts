@@ -0,0 +1,111 @@
+import { VirtualClock } from "../src/clock";
+import { CallCancelledException, SingleFlight } from "../src/singleflight";
+import { sleep } from "../src/sleep";
+import { TimeoutException } from "../src/timeout";
+
+describe("single flight", () => {
+  it("shares one call between concurrent callers of a key", async () => {
+    const flight = new SingleFlight<string, number>();
+    let calls = 0;
+    const fetch = async () => {
+      calls++;
+      await sleep(5);
+      return calls;
+    };
+
+    const results = await Promise.all([
+      flight.do("a", fetch),
+      flight.do("a", fetch),
+      flight.do("b", fetch),
+    ]);
+    expect(calls).toEqual(2);
+    expect(results[0]).toEqual(results[1]);
+    expect(flight.inFlight).toEqual(0);
+
+    // Once settled, the next call starts new work.
+    await flight.do("a", fetch);
+    expect(calls).toEqual(3);
+  });
+
+  it("shares failures, then starts afresh", async () => {
+    const flight = new SingleFlight<string, number>();
+    const failing = async (): Promise<number> => {
+      await sleep(1);
+      throw new Error("failed");
+    };
+    await expect(
+      Promise.all([flight.do("a", failing), flight.do("a", failing)])
+    ).rejects.toThrow("failed");
+    expect(await flight.do("a", async () => 1)).toEqual(1);
+  });
+
+  it("keeps working for the others when one caller aborts", async () => {
+    const flight = new SingleFlight<string, string>();
+    let workSignal: AbortSignal | undefined = undefined;
+    const work = async (signal: AbortSignal) => {
+      workSignal = signal;
+      await sleep(5, signal);
+      return "result";
+    };
+
+    const controller = new AbortController();
+    const leaving = flight.do("key", work, controller.signal);
+    const staying = flight.do("key", work);
+    expect(flight.callers("key")).toEqual(2);
+
+    controller.abort();
+    await expect(leaving).rejects.toThrow(CallCancelledException);
+    expect(workSignal!.aborted).toBe(false);
+    expect(await staying).toEqual("result");
+  });
+
+  it("cancels the work once every caller has aborted", async () => {
+    const flight = new SingleFlight<string, boolean>();
+    let workSignal: AbortSignal | undefined = undefined;
+    const work = async (signal: AbortSignal) => {
+      workSignal = signal;
+      return await sleep(1000, signal);
+    };
+
+    const first = new AbortController();
+    const second = new AbortController();
+    const calls = [
+      flight.do("key", work, first.signal),
+      flight.do("key", work, second.signal),
+    ];
+    first.abort();
+    await expect(calls[0]).rejects.toThrow(CallCancelledException);
+    expect(workSignal!.aborted).toBe(false);
+
+    second.abort();
+    await expect(calls[1]).rejects.toThrow(CallCancelledException);
+    expect(workSignal!.aborted).toBe(true);
+    expect(flight.inFlight).toEqual(0);
+  });
+
+  it("times out callers", async () => {
+    const clock = new VirtualClock();
+    const flight = new SingleFlight<string, boolean>();
+    const call = expect(
+      flight.do("key", (signal) => sleep(1000, signal, clock), {
+        timeoutMs: 10,
+        clock,
+      })
+    ).rejects.toThrow(TimeoutException);
+    await clock.advance(10);
+    await call;
+  });
+
+  it("forgets keys so new callers start new work", async () => {
+    const flight = new SingleFlight<string, number>();
+    let calls = 0;
+    const work = async () => {
+      await sleep(1);
+      return ++calls;
+    };
+    const first = flight.do("key", work);
+    flight.forget("key");
+    const second = flight.do("key", work);
+    expect(await Promise.all([first, second])).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,281 @@
+import { PassThrough, Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { Channel, ChannelClosedException } from "../src/channel";
+import { sleep } from "../src/sleep";
+import {
+  fromNodeReadable,
+  toNodeReadable,
+  toNodeWritable,
+} from "../src/streams";
+
+async function collect<T>(channel: Channel<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of channel.iterate()) values.push(value);
+  return values;
+}
+
+describe("web streams", () => {
+  it("reads a ReadableStream into a channel", async () => {
+    const stream = new ReadableStream<number>({
+      start(controller) {
+        for (const value of [1, 2, 3]) controller.enqueue(value);
+        controller.close();
+      },
+    });
+    expect(await collect(Channel.fromReadable(stream))).toEqual([1, 2, 3]);
+  });
+
+  it("only pulls from the stream as the channel is read", async () => {
+    let pulls = 0;
+    const stream = new ReadableStream<number>(
+      { pull: (controller) => controller.enqueue(++pulls) },
+      { highWaterMark: 0 }
+    );
+    const channel = Channel.fromReadable(stream);
+    await sleep(5);
+    expect(pulls).toBeLessThanOrEqual(1);
+
+    expect(await channel.read()).toEqual(1);
+    expect(await channel.read()).toEqual(2);
+    await sleep(5);
+    expect(pulls).toBeLessThanOrEqual(3);
+    channel.close();
+  });
+
+  it("surfaces stream errors to the channel's readers", async () => {
+    const failure = new Error("stream failed");
+    let pulls = 0;
+    const stream = new ReadableStream<number>(
+      {
+        pull(controller) {
+          // Erroring a stream discards its queue, so only fail once the
+          // first value has been read.
+          if (pulls++ === 0) controller.enqueue(1);
+          else controller.error(failure);
+        },
+      },
+      { highWaterMark: 0 }
+    );
+    const channel = Channel.fromReadable(stream);
+    const values: number[] = [];
+    await expect(
+      (async () => {
+        for await (const value of channel.iterate()) values.push(value);
+      })()
+    ).rejects.toBe(failure);
+    expect(values).toEqual([1]);
+  });
+
+  it("cancels the stream on close or abort", async () => {
+    let cancelled = 0;
+    const source = () =>
+      new ReadableStream<number>({
+        pull: (controller) => controller.enqueue(0),
+        cancel: () => void cancelled++,
+      });
+
+    const closed = Channel.fromReadable(source());
+    await closed.read();
+    closed.close();
+
+    const controller = new AbortController();
+    const aborted = Channel.fromReadable(source(), {
+      signal: controller.signal,
+    });
+    await aborted.read();
+    controller.abort();
+    await sleep(5);
+    expect(cancelled).toEqual(2);
+    expect(aborted.isClosed).toBe(true);
+  });
+
+  it("cancels an idle stream on close or abort", async () => {
+    let cancelled = 0;
+    // These streams never produce a value.
+    const source = () =>
+      new ReadableStream<number>({ cancel: () => void cancelled++ });
+
+    Channel.fromReadable(source()).close();
+
+    const controller = new AbortController();
+    const aborted = Channel.fromReadable(source(), {
+      signal: controller.signal,
+    });
+    controller.abort();
+    await sleep(5);
+    expect(cancelled).toEqual(2);
+    expect(aborted.isClosed).toBe(true);
+  });
+
+  it("exposes a channel as a ReadableStream", async () => {
+    const channel = new Channel<number>();
+    const reader = channel.toReadableStream().getReader();
+
+    let written = false;
+    const write = channel.write(1).then(() => (written = true));
+    await sleep(5);
+    // Nothing has pulled from the stream yet.
+    expect(written).toBe(false);
+
+    expect(await reader.read()).toEqual({ done: false, value: 1 });
+    await write;
+    channel.close(new Error("producer failed"));
+    await expect(reader.read()).rejects.toThrow("producer failed");
+  });
+
+  it("closes the channel when its ReadableStream is cancelled", async () => {
+    const channel = new Channel<number>();
+    const reader = channel.toReadableStream().getReader();
+    const pending = reader.read();
+    await reader.cancel();
+    expect(await pending).toEqual({ done: true, value: undefined });
+    expect(channel.isClosed).toBe(true);
+  });
+
+  it("ends the ReadableStream when the channel closes", async () => {
+    const channel = new Channel<string>({ capacity: 2 });
+    await channel.write("a");
+    await channel.write("b");
+    channel.close();
+
+    const values: string[] = [];
+    const reader = channel.toReadableStream().getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      values.push(value);
+    }
+    expect(values).toEqual(["a", "b"]);
+  });
+
+  it("exposes a channel as a WritableStream", async () => {
+    const channel = new Channel<number>();
+    const writer = channel.toWritableStream().getWriter();
+    const values = collect(channel);
+
+    await writer.write(1);
+    await writer.write(2);
+    await writer.close();
+    expect(await values).toEqual([1, 2]);
+  });
+
+  it("closes the channel with the WritableStream's abort reason", async () => {
+    const channel = new Channel<number>();
+    const writer = channel.toWritableStream().getWriter();
+    const blocked = writer.write(1);
+    await writer.abort(new Error("aborted"));
+
+    await expect(blocked).rejects.toBeDefined();
+    await expect(channel.read()).rejects.toThrow("aborted");
+  });
+});
+
+describe("node streams", () => {
+  it("reads a Readable into a channel", async () => {
+    const channel = fromNodeReadable<string>(Readable.from(["a", "b", "c"]));
+    expect(await collect(channel)).toEqual(["a", "b", "c"]);
+  });
+
+  it("surfaces Readable errors to the channel's readers", async () => {
+    const readable = new PassThrough({ objectMode: true });
+    const channel = fromNodeReadable<number>(readable);
+    readable.write(1);
+    expect(await channel.read()).toEqual(1);
+
+    readable.destroy(new Error("stream failed"));
+    await expect(channel.read()).rejects.toThrow("stream failed");
+  });
+
+  it("destroys the Readable when the channel closes", async () => {
+    const readable = new PassThrough({ objectMode: true });
+    const channel = fromNodeReadable<number>(readable);
+    readable.write(1);
+    readable.write(2);
+    expect(await channel.read()).toEqual(1);
+    channel.close();
+    await sleep(5);
+    expect(readable.destroyed).toBe(true);
+  });
+
+  it("destroys an idle Readable on close or abort", async () => {
+    // These streams never produce a chunk.
+    const closedReadable = new PassThrough({ objectMode: true });
+    fromNodeReadable(closedReadable).close();
+
+    const abortedReadable = new PassThrough({ objectMode: true });
+    const controller = new AbortController();
+    const aborted = fromNodeReadable(abortedReadable, {
+      signal: controller.signal,
+    });
+    controller.abort();
+    await sleep(5);
+    expect(closedReadable.destroyed).toBe(true);
+    expect(abortedReadable.destroyed).toBe(true);
+    expect(aborted.isClosed).toBe(true);
+  });
+
+  it("exposes a channel as a Readable", async () => {
+    const channel = new Channel<number>();
+    const readable = toNodeReadable(channel);
+    void (async () => {
+      for (const value of [1, 2, 3]) await channel.write(value);
+      channel.close();
+    })();
+
+    const values: number[] = [];
+    for await (const value of readable) values.push(value);
+    expect(values).toEqual([1, 2, 3]);
+  });
+
+  it("destroys the Readable with the close reason", async () => {
+    const channel = new Channel<number>();
+    const readable = toNodeReadable(channel);
+    channel.close(new Error("producer failed"));
+    await expect(
+      (async () => {
+        for await (const _ of readable) {
+          // Nothing is ever written.
+        }
+      })()
+    ).rejects.toThrow("producer failed");
+  });
+
+  it("destroys the Readable instead of ending it on a null value", async () => {
+    const channel = new Channel<number | null>();
+    const readable = toNodeReadable(channel);
+    void channel.write(1).then(() => channel.write(null));
+    const values: unknown[] = [];
+    await expect(
+      (async () => {
+        for await (const value of readable) values.push(value);
+      })()
+    ).rejects.toThrow(TypeError);
+    expect(values).toEqual([1]);
+    expect(channel.isClosed).toBe(true);
+  });
+
+  it("exposes a channel as a Writable with backpressure", async () => {
+    const channel = new Channel<number>();
+    const writable = toNodeWritable(channel);
+    const values = collect(channel);
+    await pipeline(Readable.from([1, 2, 3]), writable);
+    expect(await values).toEqual([1, 2, 3]);
+  });
+
+  it("closes the channel with the Writable's error", async () => {
+    const channel = new Channel<number>();
+    const writable: Writable = toNodeWritable(channel);
+    writable.on("error", () => {});
+    writable.destroy(new Error("writer failed"));
+    await expect(channel.read()).rejects.toThrow("writer failed");
+  });
+
+  it("fails writes once the channel is closed", async () => {
+    const channel = new Channel<number>();
+    channel.close();
+    const writable = toNodeWritable(channel);
+    const failed = new Promise((resolve) => writable.on("error", resolve));
+    writable.write(1);
+    expect(await failed).toBeInstanceOf(ChannelClosedException);
+  });
+});
@@ -0,0 +1,137 @@
+import { Channel } from "../src/channel";
+import { sleep } from "../src/sleep";
+import { TaskGroup, TaskGroupClosedException } from "../src/taskgroup";
+
+describe("task groups", () => {
+  it("waits for every task before returning", async () => {
+    const finished: number[] = [];
+    const result = await new TaskGroup().run(async (group) => {
+      for (const delay of [10, 1, 5]) {
+        group.spawn(async () => {
+          await sleep(delay);
+          finished.push(delay);
+        });
+      }
+      return "done";
+    });
+    expect(result).toEqual("done");
+    expect(finished).toEqual([1, 5, 10]);
+  });
+
+  it("waits for tasks spawned by other tasks", async () => {
+    const finished: string[] = [];
+    await new TaskGroup().run(async (group) => {
+      group.spawn(async () => {
+        await sleep(1);
+        group.spawn(async () => {
+          await sleep(5);
+          finished.push("child");
+        });
+        finished.push("parent");
+      });
+    });
+    expect(finished).toEqual(["parent", "child"]);
+  });
+
+  it("cancels siblings and aggregates errors when a task fails", async () => {
+    const channel = new Channel<number>();
+    const group = new TaskGroup();
+    let siblingSignal: AbortSignal | undefined = undefined;
+
+    const run = group.run(async (g) => {
+      g.spawn(async (signal) => {
+        siblingSignal = signal;
+        // Blocks until cancelled, throwing a ReadCancelledException.
+        await channel.read(signal);
+      });
+      g.spawn(async () => {
+        await sleep(1);
+        throw new Error("first");
+      });
+      g.spawn(async () => {
+        await sleep(1);
+        throw new Error("second");
+      });
+    });
+
+    const error: AggregateError = await run.then(
+      () => {
+        throw new Error("expected the group to fail");
+      },
+      (e: AggregateError) => e
+    );
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.errors.map((e: Error) => e.message)).toEqual([
+      "first",
+      "second",
+    ]);
+    expect(siblingSignal!.aborted).toBe(true);
+    expect(group.running).toEqual(0);
+  });
+
+  it("treats a failing body like a failing task", async () => {
+    let cancelled = false;
+    const run = new TaskGroup().run(async (group) => {
+      group.spawn(async (signal) => {
+        await sleep(1000, signal);
+        cancelled = signal.aborted;
+      });
+      throw new Error("body failed");
+    });
+    await expect(run).rejects.toBeInstanceOf(AggregateError);
+    expect(cancelled).toBe(true);
+  });
+
+  it("limits concurrency", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await new TaskGroup({ concurrency: 2 }).run(async (group) => {
+      for (let i = 0; i < 6; i++) {
+        group.spawn(async () => {
+          maxRunning = Math.max(maxRunning, ++running);
+          await sleep(2);
+          running--;
+        });
+      }
+      expect(group.running).toEqual(6);
+    });
+    expect(maxRunning).toEqual(2);
+  });
+
+  it("doesn't start queued tasks once cancelled", async () => {
+    const started: number[] = [];
+    await new TaskGroup({ concurrency: 1 }).run(async (group) => {
+      for (let i = 0; i < 3; i++) {
+        group.spawn(async (signal) => {
+          started.push(i);
+          await sleep(5, signal);
+        });
+      }
+      await sleep(1);
+      group.cancel();
+    });
+    expect(started).toEqual([0]);
+  });
+
+  it("cancels tasks when the parent signal aborts", async () => {
+    const controller = new AbortController();
+    const group = new TaskGroup({ signal: controller.signal });
+    const run = group.run(async (g) => {
+      g.spawn((signal) => sleep(1000, signal));
+    });
+    controller.abort();
+    await run;
+    expect(group.signal.aborted).toBe(true);
+  });
+
+  it("only runs once, and only accepts tasks while running", async () => {
+    const group = new TaskGroup();
+    expect(() => group.spawn(async () => {})).toThrow(TaskGroupClosedException);
+    await group.run(async () => {});
+    expect(() => group.spawn(async () => {})).toThrow(TaskGroupClosedException);
+    await expect(group.run(async () => {})).rejects.toThrow(
+      TaskGroupClosedException
+    );
+    expect(() => new TaskGroup({ concurrency: 0 })).toThrow(RangeError);
+  });
+});
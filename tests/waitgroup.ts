@@ -0,0 +1,73 @@
+import { VirtualClock } from "../src/clock";
+import { sleep } from "../src/sleep";
+import { TimeoutException } from "../src/timeout";
+import { WaitGroup } from "../src/waitgroup";
+
+describe("wait groups", () => {
+  it("waits for every task to be done", async () => {
+    const group = new WaitGroup();
+    const finished: number[] = [];
+    for (const delay of [5, 1, 3]) {
+      group.add();
+      void sleep(delay).then(() => {
+        finished.push(delay);
+        group.done();
+      });
+    }
+    expect(group.count).toEqual(3);
+    expect(await group.wait()).toBe(true);
+    expect(finished).toEqual([1, 3, 5]);
+    expect(group.count).toEqual(0);
+  });
+
+  it("returns immediately when nothing is outstanding", async () => {
+    const group = new WaitGroup();
+    expect(await group.wait()).toBe(true);
+    group.add(2);
+    group.add(-2);
+    expect(await group.wait()).toBe(true);
+  });
+
+  it("wakes every waiter, and can be reused", async () => {
+    const group = new WaitGroup();
+    group.add();
+    const waits = [group.wait(), group.wait()];
+    expect(group.waiting).toEqual(2);
+    group.done();
+    expect(await Promise.all(waits)).toEqual([true, true]);
+
+    group.add();
+    let reused = false;
+    const reusedWait = group.wait().then(() => (reused = true));
+    await sleep(1);
+    expect(reused).toBe(false);
+    group.done();
+    await reusedWait;
+    expect(reused).toBe(true);
+  });
+
+  it("can be aborted or time out", async () => {
+    const clock = new VirtualClock();
+    const group = new WaitGroup();
+    group.add();
+
+    const controller = new AbortController();
+    const aborted = group.wait(controller.signal);
+    controller.abort();
+    expect(await aborted).toBe(false);
+
+    const timedOut = expect(
+      group.wait({ timeoutMs: 10, clock })
+    ).rejects.toThrow(TimeoutException);
+    await clock.advance(10);
+    await timedOut;
+    expect(group.waiting).toEqual(0);
+  });
+
+  it("rejects negative counts", () => {
+    const group = new WaitGroup();
+    expect(() => group.done()).toThrow(RangeError);
+    expect(() => group.add(0.5)).toThrow(RangeError);
+    expect(group.count).toEqual(0);
+  });
+});